@@ -0,0 +1,25 @@
+/**
+ * Make.com interface fields a dedupe task adds in the given output mode:
+ * cluster annotations on every row ("annotated"), or the fields of one
+ * bundle per cluster ("clusters"). Deduplicated rows keep the input columns,
+ * so that mode adds none.
+ */
+function dedupeInterface(outputMode) {
+    if (outputMode === 'annotated') {
+        return [
+            { name: 'cluster_id', label: 'cluster_id', type: 'text' },
+            { name: 'is_representative', label: 'is_representative', type: 'boolean' },
+            { name: 'duplicate_explanation', label: 'duplicate_explanation', type: 'text' }
+        ];
+    }
+    if (outputMode === 'clusters') {
+        return [
+            { name: 'cluster_id', label: 'cluster_id', type: 'text' },
+            { name: 'size', label: 'size', type: 'integer' },
+            { name: 'representative', label: 'representative', type: 'collection' },
+            { name: 'members', label: 'members', type: 'array' },
+            { name: 'explanation', label: 'explanation', type: 'text' }
+        ];
+    }
+    return [];
+}
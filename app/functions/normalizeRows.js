@@ -0,0 +1,104 @@
+/**
+ * Turn whatever was mapped into an input field into the rows create_group
+ * expects: JSON text (e.g. from toString()), CSV or TSV text, an aggregated
+ * array of collections, or the bundles of a Google Sheets / Airtable search
+ * module. Make.com's bookkeeping keys (__IMTINDEX__, __ROW_NUMBER__, ...) are
+ * dropped, and Airtable API records ({ id, createdTime, fields }) are
+ * flattened like the Airtable module's output. Anything that isn't an array
+ * is returned as-is, so the engine reports what is wrong with it.
+ *
+ * `format` is "json" (default), "csv" or "tsv". CSV uses `delimiter` (default
+ * ","); without a header row (`hasHeader` false) columns are named column1,
+ * column2, ...
+ */
+function normalizeRows(value, format, delimiter, hasHeader) {
+    function isCollection(item) {
+        return item !== null && typeof item === 'object' && !Array.isArray(item);
+    }
+
+    function normalizeRow(item) {
+        if (!isCollection(item)) {
+            return item;
+        }
+        var source = item;
+        if (isCollection(item.fields) && item.id !== undefined) {
+            source = { id: item.id, createdTime: item.createdTime };
+            Object.keys(item.fields).forEach(function (key) {
+                source[key] = item.fields[key];
+            });
+        }
+        var row = {};
+        Object.keys(source).forEach(function (key) {
+            if (!/^__.*__$/.test(key) && source[key] !== undefined) {
+                row[key] = source[key];
+            }
+        });
+        return row;
+    }
+
+    // RFC 4180 records: quoted values may hold the separator, "" and line breaks
+    function parseRecords(text, separator) {
+        var records = [];
+        var record = [];
+        var field = '';
+        var quoted = false;
+        for (var i = 0; i < text.length; i++) {
+            var ch = text.charAt(i);
+            if (quoted) {
+                if (ch === '"' && text.charAt(i + 1) === '"') {
+                    field += '"';
+                    i++;
+                } else if (ch === '"') {
+                    quoted = false;
+                } else {
+                    field += ch;
+                }
+            } else if (ch === '"' && field === '') {
+                quoted = true;
+            } else if (ch === separator) {
+                record.push(field);
+                field = '';
+            } else if (ch === '\n' || ch === '\r') {
+                if (ch === '\r' && text.charAt(i + 1) === '\n') {
+                    i++;
+                }
+                record.push(field);
+                records.push(record);
+                record = [];
+                field = '';
+            } else {
+                field += ch;
+            }
+        }
+        if (field !== '' || record.length > 0) {
+            record.push(field);
+            records.push(record);
+        }
+        // Blank lines are not rows
+        return records.filter(function (r) {
+            return r.length > 1 || r[0] !== '';
+        });
+    }
+
+    function parseDelimited(text, separator, header) {
+        var records = parseRecords(text.replace(/^\uFEFF/, ''), separator);
+        var names = header && records.length > 0 ? records.shift() : [];
+        return records.map(function (record) {
+            var row = {};
+            var width = Math.max(names.length, record.length);
+            for (var i = 0; i < width; i++) {
+                var name = names[i] ? names[i].trim() : 'column' + (i + 1);
+                row[name] = i < record.length ? record[i] : '';
+            }
+            return row;
+        });
+    }
+
+    var rows = value;
+    if (typeof value === 'string' && (format === 'csv' || format === 'tsv')) {
+        rows = parseDelimited(value, format === 'tsv' ? '\t' : (delimiter || ',').charAt(0), hasHeader !== false);
+    } else if (typeof value === 'string') {
+        rows = iml.parseJSON(value);
+    }
+    return Array.isArray(rows) ? rows.map(normalizeRow) : rows;
+}
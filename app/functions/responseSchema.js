@@ -0,0 +1,22 @@
+/**
+ * Engine response schema for the fields defined in a Response Fields array
+ * parameter ({ name, type, description, optional }), keyed by field name.
+ * Returns null when no field has a name, so the engine chooses the output
+ * columns itself.
+ */
+function responseSchema(fields, modelName) {
+    var schema = { _model_name: modelName || 'Response' };
+    var named = 0;
+    (Array.isArray(fields) ? fields : []).forEach(function (field) {
+        var name = field && field.name ? String(field.name).trim() : '';
+        if (!name) {
+            return;
+        }
+        schema[name] = { type: field.type || 'str', optional: field.optional === true };
+        if (field.description) {
+            schema[name].description = field.description;
+        }
+        named++;
+    });
+    return named > 0 ? schema : null;
+}
@@ -0,0 +1,51 @@
+/**
+ * Make.com interface fields for a task's result rows. Columns come from the
+ * sample `rows` in the order they first appear, typed from their values
+ * (a column with mixed types becomes "any", one that is always empty "text").
+ * Columns named in the Response Fields array `declared` are left out, since
+ * the module lists them with their declared types.
+ */
+function resultsInterface(rows, declared) {
+    var fields = [];
+    var byName = {};
+    var skipped = (Array.isArray(declared) ? declared : []).map(function (field) {
+        return field && field.name ? String(field.name).trim() : '';
+    });
+
+    function field(name) {
+        if (!byName[name]) {
+            byName[name] = { name: name, label: name, type: null };
+            fields.push(byName[name]);
+        }
+        return byName[name];
+    }
+
+    function valueType(value) {
+        if (value === undefined || value === null || value === '') return null;
+        if (typeof value === 'boolean') return 'boolean';
+        if (typeof value === 'number') return value % 1 === 0 ? 'integer' : 'number';
+        if (Array.isArray(value)) return 'array';
+        if (typeof value === 'object') return 'collection';
+        return 'text';
+    }
+
+    (Array.isArray(rows) ? rows : []).forEach(function (row) {
+        Object.keys(row || {}).forEach(function (key) {
+            if (skipped.indexOf(key) !== -1) return;
+            var entry = field(key);
+            var type = valueType(row[key]);
+            if (!type || entry.type === type) return;
+            if (!entry.type) {
+                entry.type = type;
+            } else if ((entry.type === 'integer' && type === 'number') || (entry.type === 'number' && type === 'integer')) {
+                entry.type = 'number';
+            } else {
+                entry.type = 'any';
+            }
+        });
+    });
+
+    return fields.map(function (entry) {
+        return { name: entry.name, label: entry.label, type: entry.type || 'text' };
+    });
+}
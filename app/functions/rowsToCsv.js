@@ -0,0 +1,36 @@
+/**
+ * CSV text (RFC 4180, with a header row) for result rows. Columns follow the
+ * order they first appear in, so the input's columns come first and the
+ * fields an operation added follow. Values holding the delimiter, quotes or
+ * line breaks are quoted; nested objects and arrays are written as JSON.
+ */
+function rowsToCsv(rows, delimiter) {
+    var separator = (delimiter || ',').charAt(0);
+    var records = Array.isArray(rows) ? rows : [];
+    var columns = [];
+    records.forEach(function (row) {
+        Object.keys(row || {}).forEach(function (key) {
+            if (columns.indexOf(key) === -1) {
+                columns.push(key);
+            }
+        });
+    });
+
+    function cell(value) {
+        var text = value === undefined || value === null ? ''
+            : typeof value === 'object' ? JSON.stringify(value)
+            : String(value);
+        if (text.indexOf(separator) !== -1 || /["\r\n]/.test(text)) {
+            return '"' + text.replace(/"/g, '""') + '"';
+        }
+        return text;
+    }
+
+    var lines = [columns.map(cell).join(separator)];
+    records.forEach(function (row) {
+        lines.push(columns.map(function (column) {
+            return cell((row || {})[column]);
+        }).join(separator));
+    });
+    return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,15 @@
+/**
+ * Make.com interface fields for the columns a Response Fields array parameter
+ * adds to each result row, so they can be mapped before the task has run.
+ * Engine types map to int -> integer, float -> number, bool -> boolean and
+ * str -> text.
+ */
+function schemaInterface(fields) {
+    var types = { int: 'integer', float: 'number', bool: 'boolean', str: 'text' };
+    return (Array.isArray(fields) ? fields : []).filter(function (field) {
+        return field && field.name && String(field.name).trim();
+    }).map(function (field) {
+        var name = String(field.name).trim();
+        return { name: name, label: name, type: types[field.type] || 'text' };
+    });
+}
@@ -0,0 +1,13 @@
+/**
+ * Make.com interface fields a screen that returns all rows adds to each row:
+ * the yes/no pass field and the rationale, under the names the user chose,
+ * trimmed as the screen modules send them (default "passes" and "rationale").
+ */
+function screenInterface(passField, rationaleField) {
+    var pass = passField ? String(passField).trim() : '';
+    var rationale = rationaleField ? String(rationaleField).trim() : '';
+    return [
+        { name: pass || 'passes', label: pass || 'passes', type: 'boolean' },
+        { name: rationale || 'rationale', label: rationale || 'rationale', type: 'text' }
+    ];
+}
@@ -1,6 +1,7 @@
 #!/bin/bash
 # Deploy EveryRow app to Make.com
 # Loads credentials from .env file
+# Pass --plan or --apply to compare with the deployed app first
 
 set -e
 
@@ -34,4 +35,4 @@ fi
 
 # Run the deploy script
 cd "$PROJECT_DIR"
-npx ts-node scripts/deploy.ts
+npx ts-node scripts/deploy.ts "$@"
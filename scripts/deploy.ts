@@ -5,7 +5,13 @@
  * Deploys the EveryRow app to Make.com using their SDK API.
  *
  * Usage:
- *   MAKE_API_KEY=xxx MAKE_APP_ID=xxx npx ts-node scripts/deploy.ts
+ *   MAKE_API_KEY=xxx MAKE_APP_ID=xxx npx ts-node scripts/deploy.ts [--plan | --apply]
+ *
+ * Modes:
+ *   (default) - Push every component
+ *   --plan    - Compare each local component with the deployed one and print
+ *               what would be created, updated or left alone. Changes nothing.
+ *   --apply   - Same comparison, then push only the components that changed
  *
  * Environment variables:
  *   MAKE_API_KEY     - Your Make.com API key (from Settings > API)
@@ -16,12 +22,26 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { diffJson, formatChange, JsonChange } from './lib/json-diff';
+import {
+  CONNECTION_SECTIONS,
+  RPC_SECTIONS,
+  WEBHOOK_SECTIONS,
+  createSdkClient,
+  getModuleSections,
+  getModuleTypeId,
+} from './lib/make-sdk';
 
 const MAKE_API_KEY = process.env.MAKE_API_KEY;
 const MAKE_APP_ID = process.env.MAKE_APP_ID;
 const MAKE_APP_VERSION = process.env.MAKE_APP_VERSION || '1';
 const MAKE_BASE_URL = process.env.MAKE_BASE_URL || 'https://us1.make.com/api';
 
+const MODE: 'deploy' | 'plan' | 'apply' =
+  process.argv.includes('--plan') ? 'plan' :
+  process.argv.includes('--apply') ? 'apply' :
+  'deploy';
+
 if (!MAKE_API_KEY) {
   console.error('Error: MAKE_API_KEY environment variable is required');
   console.error('Get your API key from Make.com > Settings > API');
@@ -35,7 +55,7 @@ if (!MAKE_APP_ID) {
 }
 
 const APP_DIR = path.join(__dirname, '..', 'app');
-const API_BASE = `${MAKE_BASE_URL}/v2/sdk/apps`;
+const { makeRequest, fetchRemoteComponent } = createSdkClient(MAKE_BASE_URL, MAKE_API_KEY);
 
 interface DeployResult {
   success: boolean;
@@ -43,64 +63,207 @@ interface DeployResult {
   error?: string;
 }
 
-async function makeRequest(
-  method: 'GET' | 'POST' | 'PUT',
-  endpoint: string,
-  data?: string | object,
-  contentType: string = 'application/json'
-): Promise<any> {
-  const url = `${API_BASE}${endpoint}`;
-
-  const headers: Record<string, string> = {
-    'Authorization': `Token ${MAKE_API_KEY}`,
-    'Content-Type': contentType,
-  };
+/**
+ * A single piece of app code in Make.com (base, common, a function's code, or
+ * one section of a connection/webhook/module/RPC), with the local content it
+ * should have.
+ */
+interface Component {
+  id: string;
+  endpoint: string;
+  contentType: string;
+  content: any;
+  /** The module, RPC, function, connection or webhook this section belongs to, if any */
+  owner?: string;
+  /** Read the component back after pushing and fail if it differs */
+  verify?: boolean;
+}
 
-  const body = typeof data === 'string' ? data : (data ? JSON.stringify(data) : undefined);
+type PlanAction = 'create' | 'update' | 'unchanged';
 
-  console.log(`  ${method} ${endpoint}`);
+interface PlannedComponent {
+  component: Component;
+  action: PlanAction;
+  changes: JsonChange[];
+}
 
-  const response = await fetch(url, {
-    method,
-    headers,
-    body,
-  });
+function readJsonFile(filePath: string): any {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  return JSON.parse(content);
+}
 
-  const text = await response.text();
+function readComponentDir(dir: string): Array<[string, any]> {
+  const fullPath = path.join(APP_DIR, dir);
+  if (!fs.existsSync(fullPath)) {
+    return [];
+  }
+  return fs.readdirSync(fullPath)
+    .filter(f => f.endsWith('.imljson'))
+    // Convert filename to valid Make.com name (alphanumeric + underscore)
+    .map(f => [f.replace('.imljson', '').replace(/-/g, '_'), readJsonFile(path.join(fullPath, f))]);
+}
 
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}: ${text}`);
+/**
+ * Custom IML functions as [name, code], from app/functions/<name>.js
+ */
+function readFunctionFiles(): Array<[string, string]> {
+  const fullPath = path.join(APP_DIR, 'functions');
+  if (!fs.existsSync(fullPath)) {
+    return [];
   }
+  return fs.readdirSync(fullPath)
+    .filter(f => f.endsWith('.js'))
+    .map(f => [f.replace('.js', ''), fs.readFileSync(path.join(fullPath, f), 'utf-8')]);
+}
 
+async function pushComponent(component: Component): Promise<DeployResult> {
   try {
-    return JSON.parse(text);
-  } catch {
-    return text;
+    // Function code is sent as-is; everything else is JSON
+    const body = component.contentType === 'application/javascript'
+      ? component.content
+      : JSON.stringify(component.content);
+    await makeRequest('PUT', component.endpoint, body, component.contentType);
+    if (component.verify) {
+      await verifyComponent(component);
+    }
+    return { success: true, component: component.id };
+  } catch (error: any) {
+    return { success: false, component: component.id, error: error.message };
   }
 }
 
-function readJsonFile(filePath: string): any {
-  const content = fs.readFileSync(filePath, 'utf-8');
-  return JSON.parse(content);
+/**
+ * Read a pushed component back and make sure Make.com stored what we sent.
+ */
+async function verifyComponent(component: Component): Promise<void> {
+  const remote = await fetchRemoteComponent(component.endpoint);
+  if (remote === undefined) {
+    throw new Error('Read-back returned nothing after deploy');
+  }
+  const changes = diffJson(remote, component.content);
+  if (changes.length > 0) {
+    throw new Error(`Read-back differs from local file:\n      ${changes.map(formatChange).join('\n      ')}`);
+  }
+  console.log(`    Verified ${component.id}`);
+}
+
+function baseComponents(): Component[] {
+  return [
+    {
+      id: 'base',
+      endpoint: `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/base`,
+      contentType: 'application/jsonc',
+      content: readJsonFile(path.join(APP_DIR, 'base.imljson')),
+    },
+    {
+      id: 'common',
+      endpoint: `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/common`,
+      contentType: 'application/json',
+      content: readJsonFile(path.join(APP_DIR, 'common.imljson')),
+    },
+  ];
+}
+
+function sectionComponents(kind: 'module' | 'rpc', name: string, config: any): Component[] {
+  const sections = kind === 'module' ? getModuleSections(config.type || 'action') : RPC_SECTIONS;
+  const collection = kind === 'module' ? 'modules' : 'rpcs';
+  return sections
+    .filter(([key]) => config[key] !== undefined)
+    .map(([key, section]) => ({
+      id: `${kind}:${name}/${section}`,
+      endpoint: `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/${collection}/${name}/${section}`,
+      contentType: 'application/jsonc',
+      content: config[key],
+      owner: `${kind}:${name}`,
+    }));
+}
+
+/**
+ * Connection sections live outside the app version: /connections/{name}/{section}
+ */
+function connectionComponents(label: string, remoteName: string, config: any): Component[] {
+  return CONNECTION_SECTIONS
+    .filter(([key]) => config[key] !== undefined)
+    .map(([key, section]) => ({
+      id: `connection:${label}/${section}`,
+      endpoint: `/connections/${remoteName}/${section}`,
+      contentType: 'application/jsonc',
+      content: config[key],
+      owner: `connection:${label}`,
+      verify: true,
+    }));
+}
+
+/**
+ * Webhook sections, like connections, live outside the app version:
+ * /webhooks/{name}/{section}
+ */
+function webhookComponents(label: string, remoteName: string, config: any): Component[] {
+  return WEBHOOK_SECTIONS
+    .filter(([key]) => config[key] !== undefined)
+    .map(([key, section]) => ({
+      id: `webhook:${label}/${section}`,
+      endpoint: `/webhooks/${remoteName}/${section}`,
+      contentType: 'application/jsonc',
+      content: config[key],
+      owner: `webhook:${label}`,
+      verify: true,
+    }));
+}
+
+function functionComponents(name: string, code: string): Component[] {
+  return [{
+    id: `function:${name}/code`,
+    endpoint: `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/functions/${name}/code`,
+    contentType: 'application/javascript',
+    content: code,
+    owner: `function:${name}`,
+  }];
 }
 
 async function deployBase(): Promise<DeployResult> {
-  try {
-    const base = readJsonFile(path.join(APP_DIR, 'base.imljson'));
-    await makeRequest('PUT', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/base`, JSON.stringify(base), 'application/jsonc');
-    return { success: true, component: 'base' };
-  } catch (error: any) {
-    return { success: false, component: 'base', error: error.message };
-  }
+  return pushComponent(baseComponents()[0]);
 }
 
 async function deployCommon(): Promise<DeployResult> {
+  return pushComponent(baseComponents()[1]);
+}
+
+async function getExistingFunctions(): Promise<Map<string, string>> {
+  const response = await makeRequest('GET', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/functions`);
+  const map = new Map<string, string>();
+  for (const fn of response.appFunctions || []) {
+    map.set(fn.name, fn.name);
+  }
+  return map;
+}
+
+async function createFunction(name: string): Promise<void> {
+  console.log(`    Creating function: ${name}`);
+  await makeRequest('POST', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/functions`, { name });
+  console.log(`    Created function: ${name}`);
+}
+
+async function deployFunction(name: string, code: string): Promise<DeployResult> {
   try {
-    const common = readJsonFile(path.join(APP_DIR, 'common.imljson'));
-    await makeRequest('PUT', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/common`, JSON.stringify(common), 'application/json');
-    return { success: true, component: 'common' };
+    const existingFunctions = await getExistingFunctions();
+
+    if (!existingFunctions.has(name)) {
+      await createFunction(name);
+    } else {
+      console.log(`    Function exists: ${name}`);
+    }
+
+    for (const component of functionComponents(name, code)) {
+      const result = await pushComponent(component);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    }
+
+    return { success: true, component: `function:${name}` };
   } catch (error: any) {
-    return { success: false, component: 'common', error: error.message };
+    return { success: false, component: `function:${name}`, error: error.message };
   }
 }
 
@@ -113,6 +276,17 @@ async function getExistingConnections(): Promise<Map<string, string>> {
   return map;
 }
 
+async function createConnection(label: string, config: any): Promise<string> {
+  console.log(`    Creating connection: ${label}`);
+  const response = await makeRequest('POST', `/${MAKE_APP_ID}/connections`, {
+    label: label,
+    type: config.type || 'basic',
+  });
+  const remoteName = response.appConnection.name;
+  console.log(`    Created connection with name: ${remoteName}`);
+  return remoteName;
+}
+
 async function deployConnection(localName: string, config: any): Promise<DeployResult> {
   const label = config.label || localName;
 
@@ -122,22 +296,18 @@ async function deployConnection(localName: string, config: any): Promise<DeployR
     let remoteName = existingConnections.get(label);
 
     if (!remoteName) {
-      // Create the connection
-      console.log(`    Creating connection: ${label}`);
-      const response = await makeRequest('POST', `/${MAKE_APP_ID}/connections`, {
-        label: label,
-        type: config.type || 'basic',
-      });
-      remoteName = response.appConnection.name;
-      console.log(`    Created connection with name: ${remoteName}`);
+      remoteName = await createConnection(label, config);
     } else {
       console.log(`    Connection exists: ${remoteName}`);
     }
 
-    // Note: Connection code (api/parameters) deployment via API appears not to work
-    // The connection form parameters need to be configured manually in Make.com UI
-    // or the communication is handled by base configuration
-    console.log(`    Skipping connection code deployment (must be configured in Make.com UI)`);
+    // Deploy communication (api) and parameters, then read both back
+    for (const component of connectionComponents(label, remoteName, config)) {
+      const result = await pushComponent(component);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    }
 
     return { success: true, component: `connection:${label}` };
   } catch (error: any) {
@@ -145,6 +315,60 @@ async function deployConnection(localName: string, config: any): Promise<DeployR
   }
 }
 
+async function getExistingWebhooks(): Promise<Map<string, string>> {
+  const response = await makeRequest('GET', `/${MAKE_APP_ID}/webhooks`);
+  const map = new Map<string, string>();
+  for (const hook of response.appWebhooks || []) {
+    map.set(hook.label, hook.name);
+  }
+  return map;
+}
+
+async function createWebhook(label: string, config: any, connMap: Map<string, string>): Promise<string> {
+  let connectionName: string | null = null;
+  if (config.connection) {
+    connectionName = resolveConnectionName(config.connection, connMap);
+    console.log(`    Webhook connection reference: ${config.connection} -> ${connectionName || 'null'}`);
+  }
+
+  console.log(`    Creating webhook: ${label}`);
+  const response = await makeRequest('POST', `/${MAKE_APP_ID}/webhooks`, {
+    label: label,
+    type: config.type || 'web',
+    connection: connectionName,
+  });
+  const remoteName = response.appWebhook.name;
+  console.log(`    Created webhook with name: ${remoteName}`);
+  return remoteName;
+}
+
+async function deployWebhook(localName: string, config: any, connMap: Map<string, string>): Promise<DeployResult> {
+  const label = config.label || localName;
+
+  try {
+    const existingWebhooks = await getExistingWebhooks();
+    let remoteName = existingWebhooks.get(label);
+
+    if (!remoteName) {
+      remoteName = await createWebhook(label, config, connMap);
+    } else {
+      console.log(`    Webhook exists: ${remoteName}`);
+    }
+
+    // Deploy incoming request mapping (api), parameters, attach and detach, then read them back
+    for (const component of webhookComponents(label, remoteName, config)) {
+      const result = await pushComponent(component);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    }
+
+    return { success: true, component: `webhook:${label}` };
+  } catch (error: any) {
+    return { success: false, component: `webhook:${label}`, error: error.message };
+  }
+}
+
 async function getExistingModules(): Promise<Map<string, string>> {
   const response = await makeRequest('GET', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/modules`);
   const map = new Map<string, string>();
@@ -154,109 +378,97 @@ async function getExistingModules(): Promise<Map<string, string>> {
   return map;
 }
 
-async function deployModule(localName: string, config: any, connMap: Map<string, string>): Promise<DeployResult> {
+function resolveConnectionName(reference: string, connMap: Map<string, string>): string | null {
+  // Try to find by label first (our connection labels)
+  const label = reference === 'everyrow-api' ? 'EveryRow API' : reference;
+  const byLabel = connMap.get(label);
+  if (byLabel) {
+    return byLabel;
+  }
+  // Maybe it's already a Make.com name
+  for (const [, name] of connMap) {
+    if (name === reference) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Modules reference a webhook by its file name; Make.com knows it by the name
+ * it assigned on creation, which we find through the webhook's label.
+ */
+function resolveWebhookName(reference: string, webhookMap: Map<string, string>): string | null {
+  const file = path.join(APP_DIR, 'webhooks', `${reference}.imljson`);
+  const label = fs.existsSync(file) ? readJsonFile(file).label : reference;
+  return webhookMap.get(label) || null;
+}
+
+async function createModule(
+  moduleName: string,
+  config: any,
+  connMap: Map<string, string>,
+  webhookMap: Map<string, string>
+): Promise<void> {
+  // Resolve connection reference to actual Make.com connection name
+  let connectionName: string | null = null;
+  if (config.connection) {
+    connectionName = resolveConnectionName(config.connection, connMap);
+    console.log(`    Connection reference: ${config.connection} -> ${connectionName || 'null'}`);
+  }
+
+  // Instant triggers are created attached to their webhook
+  let webhookName: string | null = null;
+  if (config.webhook) {
+    webhookName = resolveWebhookName(config.webhook, webhookMap);
+    console.log(`    Webhook reference: ${config.webhook} -> ${webhookName || 'null'}`);
+  }
+
+  const moduleType = config.type || 'action';
+
+  // Create the module
+  console.log(`    Creating module: ${moduleName} (type: ${moduleType})`);
+  await makeRequest('POST', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/modules`, {
+    name: moduleName,
+    label: config.label || moduleName,
+    description: config.description || '',
+    typeId: getModuleTypeId(moduleType),
+    connection: connectionName,
+    ...(webhookName ? { webhook: webhookName } : {}),
+  });
+  console.log(`    Created module: ${moduleName}`);
+}
+
+async function deployModule(
+  localName: string,
+  config: any,
+  connMap: Map<string, string>,
+  webhookMap: Map<string, string>
+): Promise<DeployResult> {
   try {
     // Check if module already exists
     const existingModules = await getExistingModules();
-    let moduleName = localName;
-
-    // Resolve connection reference to actual Make.com connection name
-    let connectionName: string | null = null;
-    if (config.connection) {
-      // Try to find by label first (our connection labels)
-      const label = config.connection === 'everyrow-api' ? 'EveryRow API' : config.connection;
-      connectionName = connMap.get(label) || null;
-      if (!connectionName) {
-        // Maybe it's already a Make.com name
-        for (const [, name] of connMap) {
-          if (name === config.connection) {
-            connectionName = name;
-            break;
-          }
-        }
-      }
-      console.log(`    Connection reference: ${config.connection} -> ${connectionName || 'null'}`);
-    }
-
-    if (!existingModules.has(moduleName)) {
-      // Determine module type from config
-      let moduleType = 'action';
-      if (config.type === 'search') moduleType = 'search';
-      if (config.type === 'trigger') moduleType = 'trigger';
-
-      // Create the module
-      console.log(`    Creating module: ${moduleName} (type: ${moduleType})`);
-      await makeRequest('POST', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/modules`, {
-        name: moduleName,
-        label: config.label || moduleName,
-        description: config.description || '',
-        typeId: getModuleTypeId(moduleType),
-        connection: connectionName,
-      });
-      console.log(`    Created module: ${moduleName}`);
+
+    if (!existingModules.has(localName)) {
+      await createModule(localName, config, connMap, webhookMap);
     } else {
-      console.log(`    Module exists: ${moduleName}`);
-    }
-
-    // Deploy communication (api)
-    if (config.communication) {
-      await makeRequest(
-        'PUT',
-        `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/modules/${moduleName}/api`,
-        JSON.stringify(config.communication),
-        'application/jsonc'
-      );
-    }
-
-    // Deploy mappable parameters (expect)
-    if (config.parameters) {
-      await makeRequest(
-        'PUT',
-        `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/modules/${moduleName}/expect`,
-        JSON.stringify(config.parameters),
-        'application/jsonc'
-      );
-    }
-
-    // Deploy interface (output)
-    if (config.interface) {
-      await makeRequest(
-        'PUT',
-        `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/modules/${moduleName}/interface`,
-        JSON.stringify(config.interface),
-        'application/jsonc'
-      );
-    }
-
-    // Deploy samples
-    if (config.samples) {
-      await makeRequest(
-        'PUT',
-        `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/modules/${moduleName}/samples`,
-        JSON.stringify(config.samples),
-        'application/jsonc'
-      );
-    }
-
-    return { success: true, component: `module:${moduleName}` };
+      console.log(`    Module exists: ${localName}`);
+    }
+
+    // Deploy communication (api), parameters (expect, or static for triggers), interface (output), samples and epoch
+    for (const component of sectionComponents('module', localName, config)) {
+      const result = await pushComponent(component);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    }
+
+    return { success: true, component: `module:${localName}` };
   } catch (error: any) {
     return { success: false, component: `module:${localName}`, error: error.message };
   }
 }
 
-function getModuleTypeId(type: string): number {
-  // Make.com module type IDs
-  const types: Record<string, number> = {
-    'action': 4,
-    'search': 9,
-    'trigger': 1,
-    'instant_trigger': 5,
-    'responder': 11,
-    'universal': 12,
-  };
-  return types[type] || 4;
-}
-
 async function getExistingRpcs(): Promise<Map<string, string>> {
   const response = await makeRequest('GET', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/rpcs`);
   const map = new Map<string, string>();
@@ -266,68 +478,321 @@ async function getExistingRpcs(): Promise<Map<string, string>> {
   return map;
 }
 
+async function createRpc(rpcName: string, config: any, connMap: Map<string, string>): Promise<void> {
+  // Resolve connection reference to actual Make.com connection name
+  let connectionName: string | null = null;
+  if (config.connection) {
+    const label = config.connection === 'everyrow-api' ? 'EveryRow API' : config.connection;
+    connectionName = connMap.get(label) || null;
+    console.log(`    RPC connection reference: ${config.connection} -> ${connectionName || 'null'}`);
+  }
+
+  // Create the RPC
+  console.log(`    Creating RPC: ${rpcName}`);
+  await makeRequest('POST', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/rpcs`, {
+    name: rpcName,
+    label: config.label || rpcName,
+    connection: connectionName,
+  });
+  console.log(`    Created RPC: ${rpcName}`);
+}
+
 async function deployRpc(localName: string, config: any, connMap: Map<string, string>): Promise<DeployResult> {
   try {
     // Check if RPC already exists
     const existingRpcs = await getExistingRpcs();
-    let rpcName = localName;
-
-    // Resolve connection reference to actual Make.com connection name
-    let connectionName: string | null = null;
-    if (config.connection) {
-      const label = config.connection === 'everyrow-api' ? 'EveryRow API' : config.connection;
-      connectionName = connMap.get(label) || null;
-      console.log(`    RPC connection reference: ${config.connection} -> ${connectionName || 'null'}`);
-    }
-
-    if (!existingRpcs.has(rpcName)) {
-      // Create the RPC
-      console.log(`    Creating RPC: ${rpcName}`);
-      await makeRequest('POST', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/rpcs`, {
-        name: rpcName,
-        label: config.label || rpcName,
-        connection: connectionName,
-      });
-      console.log(`    Created RPC: ${rpcName}`);
-    } else {
-      console.log(`    RPC exists: ${rpcName}`);
-    }
 
-    // Deploy communication (api)
-    if (config.communication) {
-      await makeRequest(
-        'PUT',
-        `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/rpcs/${rpcName}/api`,
-        JSON.stringify(config.communication),
-        'application/jsonc'
-      );
+    if (!existingRpcs.has(localName)) {
+      await createRpc(localName, config, connMap);
+    } else {
+      console.log(`    RPC exists: ${localName}`);
     }
 
-    // Deploy parameters
-    if (config.parameters) {
-      await makeRequest(
-        'PUT',
-        `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/rpcs/${rpcName}/parameters`,
-        JSON.stringify(config.parameters),
-        'application/jsonc'
-      );
+    // Deploy communication (api) and parameters
+    for (const component of sectionComponents('rpc', localName, config)) {
+      const result = await pushComponent(component);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
     }
 
-    return { success: true, component: `rpc:${rpcName}` };
+    return { success: true, component: `rpc:${localName}` };
   } catch (error: any) {
     return { success: false, component: `rpc:${localName}`, error: error.message };
   }
 }
 
+// ---------------------------------------------------------------------------
+// Plan / apply
+// ---------------------------------------------------------------------------
+
+async function planComponent(component: Component, ownerExists: boolean): Promise<PlannedComponent> {
+  if (!ownerExists) {
+    return { component, action: 'create', changes: [] };
+  }
+  const remote = await fetchRemoteComponent(component.endpoint);
+  if (remote === undefined) {
+    return { component, action: 'create', changes: [] };
+  }
+  const changes = diffJson(remote, component.content);
+  return { component, action: changes.length > 0 ? 'update' : 'unchanged', changes };
+}
+
+async function buildPlan(
+  functions: Array<[string, string]>,
+  connections: Array<[string, any]>,
+  webhooks: Array<[string, any]>,
+  modules: Array<[string, any]>,
+  rpcs: Array<[string, any]>
+): Promise<{
+  plan: PlannedComponent[];
+  missingFunctions: string[];
+  missingConnections: string[];
+  missingWebhooks: string[];
+  missingModules: string[];
+  missingRpcs: string[];
+}> {
+  const existingFunctions = await getExistingFunctions();
+  const existingConnections = await getExistingConnections();
+  const existingWebhooks = await getExistingWebhooks();
+  const existingModules = await getExistingModules();
+  const existingRpcs = await getExistingRpcs();
+  const plan: PlannedComponent[] = [];
+  const missingConnections: string[] = [];
+  const missingWebhooks: string[] = [];
+
+  for (const component of baseComponents()) {
+    plan.push(await planComponent(component, true));
+  }
+  for (const [name, code] of functions) {
+    for (const component of functionComponents(name, code)) {
+      plan.push(await planComponent(component, existingFunctions.has(name)));
+    }
+  }
+  for (const [localName, config] of connections) {
+    const label = config.label || localName;
+    const remoteName = existingConnections.get(label);
+    if (!remoteName) {
+      missingConnections.push(label);
+    }
+    for (const component of connectionComponents(label, remoteName || label, config)) {
+      plan.push(await planComponent(component, remoteName !== undefined));
+    }
+  }
+  for (const [localName, config] of webhooks) {
+    const label = config.label || localName;
+    const remoteName = existingWebhooks.get(label);
+    if (!remoteName) {
+      missingWebhooks.push(label);
+    }
+    for (const component of webhookComponents(label, remoteName || label, config)) {
+      plan.push(await planComponent(component, remoteName !== undefined));
+    }
+  }
+  for (const [name, config] of rpcs) {
+    for (const component of sectionComponents('rpc', name, config)) {
+      plan.push(await planComponent(component, existingRpcs.has(name)));
+    }
+  }
+  for (const [name, config] of modules) {
+    for (const component of sectionComponents('module', name, config)) {
+      plan.push(await planComponent(component, existingModules.has(name)));
+    }
+  }
+
+  return {
+    plan,
+    missingFunctions: functions.map(([name]) => name).filter(name => !existingFunctions.has(name)),
+    missingConnections,
+    missingWebhooks,
+    missingModules: modules.map(([name]) => name).filter(name => !existingModules.has(name)),
+    missingRpcs: rpcs.map(([name]) => name).filter(name => !existingRpcs.has(name)),
+  };
+}
+
+function printPlan(
+  plan: PlannedComponent[],
+  missingFunctions: string[],
+  missingConnections: string[],
+  missingWebhooks: string[],
+  missingModules: string[],
+  missingRpcs: string[]
+): void {
+  const symbols: Record<PlanAction, string> = { create: '+', update: '~', unchanged: '=' };
+
+  console.log('');
+  console.log('=== Deploy Plan ===');
+  for (const name of missingFunctions) {
+    console.log(`  + function:${name} (new function)`);
+  }
+  for (const label of missingConnections) {
+    console.log(`  + connection:${label} (new connection)`);
+  }
+  for (const label of missingWebhooks) {
+    console.log(`  + webhook:${label} (new webhook)`);
+  }
+  for (const name of missingModules) {
+    console.log(`  + module:${name} (new module)`);
+  }
+  for (const name of missingRpcs) {
+    console.log(`  + rpc:${name} (new RPC)`);
+  }
+  for (const { component, action, changes } of plan) {
+    console.log(`  ${symbols[action]} ${component.id} (${action})`);
+    for (const change of changes) {
+      console.log(`      ${formatChange(change)}`);
+    }
+  }
+
+  const count = (action: PlanAction) => plan.filter(p => p.action === action).length;
+  console.log('');
+  console.log(`Plan: ${count('create')} to create, ${count('update')} to update, ${count('unchanged')} unchanged`);
+}
+
+async function planAndApply(): Promise<void> {
+  const functions = readFunctionFiles();
+  const connections = readComponentDir('connections');
+  const webhooks = readComponentDir('webhooks');
+  const modules = readComponentDir('modules');
+  const rpcs = readComponentDir('rpcs');
+
+  console.log('Fetching deployed components...');
+  const { plan, missingFunctions, missingConnections, missingWebhooks, missingModules, missingRpcs } =
+    await buildPlan(functions, connections, webhooks, modules, rpcs);
+  printPlan(plan, missingFunctions, missingConnections, missingWebhooks, missingModules, missingRpcs);
+
+  const pending = plan.filter(p => p.action !== 'unchanged');
+  if (MODE === 'plan' || pending.length === 0) {
+    if (MODE === 'apply') {
+      console.log('');
+      console.log('Nothing to apply.');
+    }
+    return;
+  }
+
+  console.log('');
+  console.log('Applying changes...');
+  const results: DeployResult[] = [];
+
+  for (const name of missingFunctions) {
+    try {
+      await createFunction(name);
+      results.push({ success: true, component: `function:${name}` });
+    } catch (error: any) {
+      results.push({ success: false, component: `function:${name}`, error: error.message });
+    }
+  }
+
+  // New connections get their Make.com name on creation, so their sections
+  // are pushed here rather than from the plan
+  for (const [localName, config] of connections) {
+    const label = config.label || localName;
+    if (!missingConnections.includes(label)) {
+      continue;
+    }
+    try {
+      const remoteName = await createConnection(label, config);
+      for (const component of connectionComponents(label, remoteName, config)) {
+        results.push(await pushComponent(component));
+      }
+    } catch (error: any) {
+      results.push({ success: false, component: `connection:${label}`, error: error.message });
+    }
+  }
+
+  const connMap = await getExistingConnections();
+
+  // Same for new webhooks, which instant trigger modules are created against
+  for (const [localName, config] of webhooks) {
+    const label = config.label || localName;
+    if (!missingWebhooks.includes(label)) {
+      continue;
+    }
+    try {
+      const remoteName = await createWebhook(label, config, connMap);
+      for (const component of webhookComponents(label, remoteName, config)) {
+        results.push(await pushComponent(component));
+      }
+    } catch (error: any) {
+      results.push({ success: false, component: `webhook:${label}`, error: error.message });
+    }
+  }
+
+  const webhookMap = await getExistingWebhooks();
+
+  for (const [name, config] of rpcs.filter(([name]) => missingRpcs.includes(name))) {
+    try {
+      await createRpc(name, config, connMap);
+      results.push({ success: true, component: `rpc:${name}` });
+    } catch (error: any) {
+      results.push({ success: false, component: `rpc:${name}`, error: error.message });
+    }
+  }
+  for (const [name, config] of modules.filter(([name]) => missingModules.includes(name))) {
+    try {
+      await createModule(name, config, connMap, webhookMap);
+      results.push({ success: true, component: `module:${name}` });
+    } catch (error: any) {
+      results.push({ success: false, component: `module:${name}`, error: error.message });
+    }
+  }
+
+  const failedOwners = new Set(results.filter(r => !r.success).map(r => r.component));
+  for (const { component } of pending) {
+    if (component.owner && missingConnections.some(label => component.owner === `connection:${label}`)) {
+      continue;
+    }
+    if (component.owner && missingWebhooks.some(label => component.owner === `webhook:${label}`)) {
+      continue;
+    }
+    if (component.owner && failedOwners.has(component.owner)) {
+      results.push({ success: false, component: component.id, error: `${component.owner} could not be created` });
+      continue;
+    }
+    results.push(await pushComponent(component));
+  }
+
+  printSummary(results);
+}
+
+function printSummary(results: DeployResult[]): void {
+  console.log('');
+  console.log('=== Deploy Summary ===');
+  const succeeded = results.filter(r => r.success);
+  const failed = results.filter(r => !r.success);
+
+  console.log(`Succeeded: ${succeeded.length}`);
+  for (const r of succeeded) {
+    console.log(`  ✓ ${r.component}`);
+  }
+
+  if (failed.length > 0) {
+    console.log(`Failed: ${failed.length}`);
+    for (const r of failed) {
+      console.log(`  ✗ ${r.component}: ${r.error}`);
+    }
+    process.exit(1);
+  }
+}
+
 // Global map of connection labels to Make.com connection names
 let connectionNameMap: Map<string, string> = new Map();
 
+// Global map of webhook labels to Make.com webhook names
+let webhookNameMap: Map<string, string> = new Map();
+
 async function main() {
   console.log('=== Make.com Custom App Deploy ===');
   console.log(`App: ${MAKE_APP_ID} v${MAKE_APP_VERSION}`);
   console.log(`API: ${MAKE_BASE_URL}`);
+  console.log(`Mode: ${MODE}`);
   console.log('');
 
+  if (MODE !== 'deploy') {
+    await planAndApply();
+    return;
+  }
+
   const results: DeployResult[] = [];
 
   // Deploy base
@@ -338,16 +803,21 @@ async function main() {
   console.log('Deploying common...');
   results.push(await deployCommon());
 
+  // Deploy custom IML functions before the modules that call them
+  const functions = readFunctionFiles();
+  if (functions.length > 0) {
+    console.log('Deploying functions...');
+    for (const [name, code] of functions) {
+      results.push(await deployFunction(name, code));
+    }
+  }
+
   // Deploy connections first and build the name mapping
-  const connectionsDir = path.join(APP_DIR, 'connections');
-  if (fs.existsSync(connectionsDir)) {
+  const connections = readComponentDir('connections');
+  if (connections.length > 0) {
     console.log('Deploying connections...');
-    const connectionFiles = fs.readdirSync(connectionsDir).filter(f => f.endsWith('.imljson'));
-    for (const file of connectionFiles) {
-      const localName = file.replace('.imljson', '').replace(/-/g, '_');
-      const config = readJsonFile(path.join(connectionsDir, file));
-      const result = await deployConnection(localName, config);
-      results.push(result);
+    for (const [localName, config] of connections) {
+      results.push(await deployConnection(localName, config));
     }
   }
 
@@ -355,50 +825,37 @@ async function main() {
   connectionNameMap = await getExistingConnections();
   console.log('  Connection mapping:', Object.fromEntries(connectionNameMap));
 
-  // Deploy modules
-  const modulesDir = path.join(APP_DIR, 'modules');
-  if (fs.existsSync(modulesDir)) {
-    console.log('Deploying modules...');
-    const moduleFiles = fs.readdirSync(modulesDir).filter(f => f.endsWith('.imljson'));
-    for (const file of moduleFiles) {
-      // Convert filename to valid Make.com module name (alphanumeric + underscore)
-      const name = file.replace('.imljson', '').replace(/-/g, '_');
-      const config = readJsonFile(path.join(modulesDir, file));
-      results.push(await deployModule(name, config, connectionNameMap));
+  // Deploy webhooks before the instant triggers that use them
+  const webhooks = readComponentDir('webhooks');
+  if (webhooks.length > 0) {
+    console.log('Deploying webhooks...');
+    for (const [localName, config] of webhooks) {
+      results.push(await deployWebhook(localName, config, connectionNameMap));
     }
   }
+  webhookNameMap = await getExistingWebhooks();
 
-  // Deploy RPCs
-  const rpcsDir = path.join(APP_DIR, 'rpcs');
-  if (fs.existsSync(rpcsDir)) {
+  // Deploy RPCs before the modules whose options and interfaces load from them
+  const rpcs = readComponentDir('rpcs');
+  if (rpcs.length > 0) {
     console.log('Deploying RPCs...');
-    const rpcFiles = fs.readdirSync(rpcsDir).filter(f => f.endsWith('.imljson'));
-    for (const file of rpcFiles) {
-      const name = file.replace('.imljson', '').replace(/-/g, '_');
-      const config = readJsonFile(path.join(rpcsDir, file));
+    for (const [name, config] of rpcs) {
       results.push(await deployRpc(name, config, connectionNameMap));
     }
   }
 
-  // Summary
-  console.log('');
-  console.log('=== Deploy Summary ===');
-  const succeeded = results.filter(r => r.success);
-  const failed = results.filter(r => !r.success);
-
-  console.log(`Succeeded: ${succeeded.length}`);
-  for (const r of succeeded) {
-    console.log(`  ✓ ${r.component}`);
-  }
-
-  if (failed.length > 0) {
-    console.log(`Failed: ${failed.length}`);
-    for (const r of failed) {
-      console.log(`  ✗ ${r.component}: ${r.error}`);
+  // Deploy modules
+  const modules = readComponentDir('modules');
+  if (modules.length > 0) {
+    console.log('Deploying modules...');
+    for (const [name, config] of modules) {
+      results.push(await deployModule(name, config, connectionNameMap, webhookNameMap));
     }
-    process.exit(1);
   }
 
+  // Summary
+  printSummary(results);
+
   console.log('');
   console.log('Deploy complete!');
 }
@@ -0,0 +1,77 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Generate Template Blueprints
+ *
+ * Writes both variants of every template from templates/sources/*.json and
+ * the module definitions in app/ (see scripts/lib/blueprint.ts):
+ *
+ *   templates/everyrow-<name>.json            - uses the custom app
+ *   templates/everyrow-<name>-blueprint.json  - uses HTTP modules only
+ *
+ * Usage:
+ *   npx ts-node scripts/generate-templates.ts [--app-id <id>] [--check]
+ *
+ * Options:
+ *   --app-id <id> - Custom app identifier in module references
+ *                   (default: MAKE_TEMPLATE_APP_ID or custom-app-oonbtb)
+ *   --check       - Don't write; exit 1 if any template is out of date
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TemplateSource, buildCustomAppBlueprint, buildHttpBlueprint } from './lib/blueprint';
+
+const TEMPLATES_DIR = path.join(__dirname, '..', 'templates');
+const SOURCES_DIR = path.join(TEMPLATES_DIR, 'sources');
+
+// The app the committed templates point at
+const DEFAULT_APP_ID = 'custom-app-oonbtb';
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const APP_ID = argValue('--app-id') || process.env.MAKE_TEMPLATE_APP_ID || DEFAULT_APP_ID;
+const CHECK = process.argv.includes('--check');
+
+async function main() {
+  const sources = fs.readdirSync(SOURCES_DIR).filter(f => f.endsWith('.json')).sort();
+  const outdated: string[] = [];
+
+  for (const file of sources) {
+    const source: TemplateSource = JSON.parse(fs.readFileSync(path.join(SOURCES_DIR, file), 'utf-8'));
+    const name = path.basename(file, '.json');
+
+    const outputs: Array<[string, object]> = [
+      [`${name}.json`, buildCustomAppBlueprint(source, APP_ID)],
+      [`${name}-blueprint.json`, await buildHttpBlueprint(source)],
+    ];
+
+    for (const [outputFile, blueprint] of outputs) {
+      const outputPath = path.join(TEMPLATES_DIR, outputFile);
+      const content = JSON.stringify(blueprint, null, 4) + '\n';
+      const current = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, 'utf-8') : undefined;
+
+      if (current === content) {
+        console.log(`  = ${outputFile}`);
+      } else if (CHECK) {
+        console.log(`  ✗ ${outputFile} is out of date`);
+        outdated.push(outputFile);
+      } else {
+        fs.writeFileSync(outputPath, content);
+        console.log(`  ${current === undefined ? '+' : '~'} ${outputFile}`);
+      }
+    }
+  }
+
+  if (outdated.length > 0) {
+    console.error(`\n${outdated.length} template(s) out of date. Run: npm run templates`);
+    process.exit(1);
+  }
+}
+
+main().catch(err => {
+  console.error('Template generation failed:', err);
+  process.exit(1);
+});
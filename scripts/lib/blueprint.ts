@@ -0,0 +1,202 @@
+/**
+ * Scenario Blueprint Generator
+ *
+ * Builds the two variants of each template in templates/ from one source
+ * file (templates/sources/*.json) and the module definitions in app/:
+ *
+ * - the custom-app variant wires the start module to Get Task Status and
+ *   Get Task Results;
+ * - the HTTP variant replays the same modules' `communication` with the
+ *   interpreter. A recording transport turns every request into an HTTP
+ *   module and answers with `{{N.data.x}}` placeholders, so later requests
+ *   reference the HTTP module that produced each value.
+ */
+
+import { ImlFunction } from './iml';
+import { HttpRequest, HttpResponse, loadAppFile, loadAppFunctions, runModule } from './communication';
+
+export interface TemplateSource {
+  /** Scenario name, e.g. "EveryRow Rank" */
+  name: string;
+  /** Start module, e.g. "startRankTask" */
+  module: string;
+  /** Seconds to wait before polling the task's final status */
+  waitSeconds: number;
+  /** Sample datasets by parameter name, set in the Set Variables module */
+  data: Record<string, any[]>;
+  /** Other parameters of the start module, passed as-is */
+  parameters: Record<string, any>;
+}
+
+export interface BlueprintModule {
+  id: number;
+  module: string;
+  version: number;
+  parameters: Record<string, any>;
+  mapper: Record<string, any>;
+  metadata: { designer: { x: number; y: number } };
+}
+
+export interface Blueprint {
+  name: string;
+  flow: BlueprintModule[];
+  metadata: Record<string, any>;
+}
+
+// Wait before a status poll that is part of a start module (input upload)
+const UPLOAD_WAIT_SECONDS = 3;
+
+// Marks a parameter whose value is spliced into a JSON body unquoted
+const RAW_MARKER = '@@raw:';
+
+const SCENARIO_METADATA = {
+  instant: false,
+  version: 1,
+  scenario: {
+    roundtrips: 1,
+    maxErrors: 3,
+    autoCommit: true,
+    autoCommitTriggerLast: true,
+    sequential: false,
+  },
+  designer: { orphans: [] },
+};
+
+function flowModule(id: number, module: string, mapper: Record<string, any>, version: number = 1): BlueprintModule {
+  return {
+    id,
+    module,
+    version,
+    parameters: {},
+    mapper,
+    metadata: { designer: { x: (id - 1) * 300, y: 0 } },
+  };
+}
+
+function setVariables(source: TemplateSource, extra: Array<{ name: string; value: string }> = []): BlueprintModule {
+  return flowModule(1, 'util:SetVariables', {
+    variables: [
+      ...Object.entries(source.data).map(([name, rows]) => ({ name, value: JSON.stringify(rows) })),
+      ...extra,
+    ],
+    scope: 'roundtrip',
+  });
+}
+
+function sleep(id: number, seconds: number): BlueprintModule {
+  return flowModule(id, 'util:FunctionSleep', { duration: String(seconds) });
+}
+
+/**
+ * Blueprint that uses the custom app's modules. `appId` is the app's
+ * identifier in Make.com, e.g. "custom-app-oonbtb".
+ */
+export function buildCustomAppBlueprint(source: TemplateSource, appId: string): Blueprint {
+  const app = (module: string) => `app#${appId}:${module}`;
+  const dataMapper = Object.fromEntries(Object.keys(source.data).map(name => [name, `{{1.${name}}}`]));
+
+  return {
+    name: source.name,
+    flow: [
+      setVariables(source),
+      flowModule(2, app(source.module), { ...dataMapper, ...source.parameters }),
+      flowModule(3, app('getTaskStatus'), { taskId: '{{2.taskId}}' }),
+      sleep(4, source.waitSeconds),
+      flowModule(5, app('getTaskStatus'), { taskId: '{{2.taskId}}' }),
+      flowModule(6, app('getTaskResults'), { artifactId: '{{5.artifactId}}' }),
+    ],
+    metadata: SCENARIO_METADATA,
+  };
+}
+
+/**
+ * Parameters as Make.com passes them: mapped values plus each unmapped
+ * parameter's default.
+ */
+function withDefaults(module: any, parameters: Record<string, any>): Record<string, any> {
+  const values: Record<string, any> = {};
+  for (const param of module.parameters || []) {
+    if (param.default !== undefined) {
+      values[param.name] = param.default;
+    }
+  }
+  return { ...values, ...parameters };
+}
+
+function serializeBody(body: any): string {
+  // "@@raw:{{1.inputData}}" becomes {{1.inputData}}, so the JSON text is inlined
+  return JSON.stringify(body).replace(/"@@raw:(\{\{[^"]*\}\})"/g, '$1');
+}
+
+function httpMapper(request: HttpRequest): Record<string, any> {
+  // Query values are IML placeholders, so they are appended without encoding
+  const query = Object.entries(request.qs).map(([key, value]) => `${encodeURIComponent(key)}=${value}`).join('&');
+  const headers = Object.entries(request.headers)
+    .filter(([name]) => name.toLowerCase() !== 'content-type')
+    .map(([name, value]) => ({ name, value }));
+
+  return {
+    url: query ? `${request.url}?${query}` : request.url,
+    method: request.method.toLowerCase(),
+    headers,
+    ...(request.body !== undefined
+      ? { body: serializeBody(request.body), bodyType: 'raw', contentType: 'application/json' }
+      : {}),
+    parseResponse: true,
+  };
+}
+
+/**
+ * Blueprint that calls the EveryRow API with HTTP modules, for users who
+ * haven't installed the custom app. The API key is set in Set Variables.
+ */
+export async function buildHttpBlueprint(source: TemplateSource): Promise<Blueprint> {
+  const flow: BlueprintModule[] = [
+    setVariables(source, [{ name: 'apiKey', value: 'YOUR_EVERYROW_API_KEY' }]),
+  ];
+  let finalPoll = false;
+
+  const transport = async (request: HttpRequest): Promise<HttpResponse> => {
+    if (/\/status$/.test(request.url)) {
+      flow.push(sleep(flow.length + 1, finalPoll ? source.waitSeconds : UPLOAD_WAIT_SECONDS));
+    }
+    const id = flow.length + 1;
+    if (finalPoll && request.url.endsWith('/artifacts')) {
+      // One HTTP module can't page, so the template fetches the whole result
+      const { offset, limit, ...qs } = request.qs;
+      request = { ...request, qs };
+    }
+    flow.push(flowModule(id, 'http:ActionSendData', httpMapper(request), 3));
+
+    // Any field read from the response refers to this HTTP module's output
+    const body = new Proxy({}, {
+      get: (_, field) => typeof field === 'string' ? `{{${id}.data.${field}}}` : undefined,
+    });
+    return { statusCode: 200, headers: {}, body };
+  };
+
+  const { normalizeRows } = loadAppFunctions();
+  const functions: Record<string, ImlFunction> = {
+    normalizeRows: (value, ...options) => typeof value === 'string' && value.startsWith(RAW_MARKER)
+      ? value
+      : normalizeRows(value, ...options),
+  };
+  const run = (moduleName: string, parameters: Record<string, any>) => {
+    const module = loadAppFile(`modules/${moduleName}.imljson`);
+    return runModule(module, {
+      transport,
+      functions,
+      parameters: withDefaults(module, parameters),
+      connection: { apiKey: '{{1.apiKey}}' },
+    });
+  };
+
+  const data = Object.fromEntries(Object.keys(source.data).map(name => [name, `${RAW_MARKER}{{1.${name}}}`]));
+  const start = await run(source.module, { ...data, ...source.parameters });
+
+  finalPoll = true;
+  const status = await run('getTaskStatus', { taskId: start.output[0].taskId });
+  await run('getTaskResults', { artifactId: status.output[0].artifactId });
+
+  return { name: `${source.name} (HTTP)`, flow, metadata: SCENARIO_METADATA };
+}
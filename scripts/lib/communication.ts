@@ -0,0 +1,488 @@
+/**
+ * Module Communication Runner
+ *
+ * Executes a module's `communication` block the way Make.com does: each
+ * request is evaluated with IML, merged with `base.imljson`, sent through a
+ * pluggable transport, and its `response` directives (temp, iterate,
+ * output, error) are applied before the next request runs. A request with a
+ * `repeat` directive is sent again while its condition holds, and one with
+ * `pagination` fetches further pages until a page is empty, the pagination
+ * condition fails or `response.limit` bundles were emitted.
+ *
+ * Polling triggers are simulated with their state: `response.trigger` names
+ * each item's id/date, items not newer than the `epoch` from the previous run
+ * (for date triggers, the same date and an id up to the epoch's) are dropped,
+ * and the newest emitted item becomes the next epoch.
+ *
+ * Transports let the same module run against the live engine, a local
+ * stand-in, or canned responses in tests.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { evaluate, ImlContext, ImlFunction, BUILTIN_FUNCTIONS, compileFunction, stringify } from './iml';
+
+export interface HttpRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  qs: Record<string, any>;
+  body?: any;
+}
+
+export interface HttpResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+export type Transport = (request: HttpRequest) => Promise<HttpResponse>;
+
+export interface RunOptions {
+  transport: Transport;
+  parameters?: Record<string, any>;
+  connection?: Record<string, any>;
+  common?: Record<string, any>;
+  /** Parsed base.imljson; its baseUrl, headers, qs and response are inherited */
+  base?: any;
+  /** Overrides base.baseUrl, e.g. to point at a local engine */
+  baseUrl?: string;
+  functions?: Record<string, ImlFunction>;
+  /** The `webhook` variable of attach/detach: `url`, plus the data attach returned */
+  webhook?: Record<string, any>;
+  /** A polling trigger's state from its previous run (`epoch` in IML) */
+  epoch?: TriggerState;
+  /** Waits between `repeat` attempts; tests pass a no-op */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface RunResult {
+  /** Every request that was sent, after IML evaluation */
+  requests: HttpRequest[];
+  /** Final state of `temp` after all requests ran */
+  temp: Record<string, any>;
+  /** Output bundles, one per emitted item */
+  output: any[];
+  /** Values from `response.data`, e.g. the external hook ID an attach returns */
+  data: Record<string, any>;
+  /** A polling trigger's state after this run: the newest item it emitted */
+  epoch?: TriggerState;
+}
+
+/**
+ * What Make.com remembers between runs of a polling trigger.
+ */
+export interface TriggerState {
+  id?: any;
+  date?: string;
+}
+
+/**
+ * A request Make.com received on a webhook URL.
+ */
+export interface IncomingRequest {
+  body: any;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+}
+
+/**
+ * Error raised when a response is an error (status >= 400 or `valid` false),
+ * carrying the type and message produced by the `response.error` directive.
+ */
+export class ModuleError extends Error {
+  constructor(public type: string, message: string, public statusCode?: number) {
+    super(message);
+    this.name = 'ModuleError';
+  }
+}
+
+const APP_DIR = path.join(__dirname, '..', '..', 'app');
+
+export function loadAppFile(relativePath: string): any {
+  return JSON.parse(fs.readFileSync(path.join(APP_DIR, relativePath), 'utf-8'));
+}
+
+/**
+ * The app's custom IML functions, from app/functions/<name>.js.
+ */
+export function loadAppFunctions(): Record<string, ImlFunction> {
+  const dir = path.join(APP_DIR, 'functions');
+  const functions: Record<string, ImlFunction> = {};
+  if (!fs.existsSync(dir)) return functions;
+  for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.js')).sort()) {
+    const name = path.basename(file, '.js');
+    functions[name] = compileFunction(name, fs.readFileSync(path.join(dir, file), 'utf-8'));
+  }
+  return functions;
+}
+
+function resolveUrl(baseUrl: string | undefined, url: string): string {
+  if (/^https?:\/\//.test(url) || !baseUrl) {
+    return url;
+  }
+  return `${baseUrl.replace(/\/$/, '')}/${url.replace(/^\//, '')}`;
+}
+
+function mergeResponse(baseResponse: any, response: any): any {
+  const merged = { ...(baseResponse || {}), ...(response || {}) };
+  if (baseResponse?.error || response?.error) {
+    merged.error = { ...(baseResponse?.error || {}), ...(response?.error || {}) };
+  }
+  return merged;
+}
+
+function dropEmpty(values: Record<string, any> | undefined): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(values || {})) {
+    if (value !== undefined && value !== null) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function buildError(errorSpec: any, statusCode: number, context: ImlContext, functions: Record<string, ImlFunction>): ModuleError {
+  const spec = { ...(errorSpec || {}), ...(errorSpec?.[statusCode] || {}) };
+  const type = spec.type ? stringify(evaluate(spec.type, context, functions)) : 'RuntimeError';
+  const message = spec.message
+    ? stringify(evaluate(spec.message, context, functions))
+    : `Request failed with status ${statusCode}`;
+  return new ModuleError(type, message, statusCode);
+}
+
+/**
+ * Run a communication block (a single request object or an array of them).
+ */
+export async function runCommunication(communication: any, options: RunOptions): Promise<RunResult> {
+  const requests = Array.isArray(communication) ? communication : [communication];
+  const functions = { ...BUILTIN_FUNCTIONS, ...(options.functions || {}) };
+  const sleep = options.sleep || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+
+  const result: RunResult = { requests: [], temp: {}, output: [], data: {}, epoch: options.epoch };
+  let lastBody: any;
+  let hasOutput = false;
+
+  for (const spec of requests) {
+    const context: ImlContext = {
+      parameters: options.parameters || {},
+      connection: options.connection || {},
+      common: options.common || {},
+      temp: result.temp,
+      ...(options.webhook ? { webhook: options.webhook } : {}),
+      ...(options.epoch ? { epoch: options.epoch } : {}),
+    };
+
+    if (spec.condition !== undefined && !evaluate(spec.condition, context, functions)) {
+      continue;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      let sent = await sendRequest(spec, context, options, functions, result);
+      let emitted = sent.emitted;
+      while (spec.pagination !== undefined && sent.emitted > 0 && !sent.limitReached) {
+        // Evaluated against the previous page, e.g. {{body.next_offset}}
+        const { condition, ...page } = spec.pagination;
+        if (condition !== undefined && !evaluate(condition, sent.context, functions)) break;
+        sent = await sendRequest(spec, context, options, functions, result, {
+          overrides: evaluate(page, sent.context, functions),
+          emitted,
+        });
+        emitted += sent.emitted;
+      }
+      lastBody = sent.context.body;
+      hasOutput = hasOutput || sent.hasOutput;
+
+      if (spec.repeat === undefined) break;
+      // Evaluated after `temp`, so the condition can read this response
+      const repeat = evaluate(spec.repeat, sent.context, functions);
+      if (!repeat.condition || (repeat.limit !== undefined && attempt >= Number(repeat.limit))) break;
+      await sleep(Number(repeat.delay) || 0);
+    }
+  }
+
+  // Without any output directive Make returns the last response body as-is
+  if (!hasOutput && lastBody !== undefined) {
+    result.output.push(lastBody);
+  }
+
+  return result;
+}
+
+/**
+ * A follow-up page of a request with `pagination`.
+ */
+interface Page {
+  /** Evaluated pagination url/qs/headers/body, merged over the request's own */
+  overrides: Record<string, any>;
+  /** Bundles earlier pages emitted, counted against `response.limit` */
+  emitted: number;
+}
+
+interface SentRequest {
+  context: ImlContext;
+  hasOutput: boolean;
+  /** Bundles this response emitted */
+  emitted: number;
+  /** Whether `response.limit` bundles have been emitted, counting earlier pages */
+  limitReached: boolean;
+}
+
+/**
+ * Send one request and apply its response directives to `result`.
+ */
+async function sendRequest(
+  spec: any,
+  context: ImlContext,
+  options: RunOptions,
+  functions: Record<string, ImlFunction>,
+  result: RunResult,
+  page: Page = { overrides: {}, emitted: 0 }
+): Promise<SentRequest> {
+  const base = options.base || {};
+  const baseUrl = options.baseUrl || base.baseUrl;
+  const { overrides } = page;
+  let hasOutput = false;
+  let emitted = 0;
+
+  const request: HttpRequest = {
+    method: stringify(evaluate(spec.method || 'GET', context, functions)).toUpperCase(),
+    url: resolveUrl(baseUrl, stringify(evaluate(spec.url, context, functions))),
+    headers: dropEmpty(evaluate({ ...(base.headers || {}), ...(spec.headers || {}) }, context, functions)),
+    qs: dropEmpty(evaluate({ ...(base.qs || {}), ...(spec.qs || {}) }, context, functions)),
+  };
+  if (spec.body !== undefined) {
+    request.body = evaluate(spec.body, context, functions);
+  }
+  if (overrides.url !== undefined) {
+    request.url = resolveUrl(baseUrl, stringify(overrides.url));
+  }
+  Object.assign(request.qs, dropEmpty(overrides.qs));
+  Object.assign(request.headers, dropEmpty(overrides.headers));
+  if (overrides.body !== undefined) {
+    request.body = typeof request.body === 'object' && typeof overrides.body === 'object'
+      ? { ...request.body, ...overrides.body }
+      : overrides.body;
+  }
+  result.requests.push(request);
+
+  const response = await options.transport(request);
+  const directives = mergeResponse(base.response, spec.response);
+  const responseContext: ImlContext = {
+    ...context,
+    body: response.body,
+    headers: response.headers,
+    statusCode: response.statusCode,
+  };
+
+  if (response.statusCode >= 400) {
+    throw buildError(directives.error, response.statusCode, responseContext, functions);
+  }
+  if (directives.valid !== undefined && !evaluate(directives.valid, responseContext, functions)) {
+    throw buildError(directives.error, response.statusCode, responseContext, functions);
+  }
+
+  if (directives.temp) {
+    Object.assign(result.temp, evaluate(directives.temp, responseContext, functions));
+  }
+  if (directives.data) {
+    Object.assign(result.data, evaluate(directives.data, responseContext, functions));
+  }
+
+  // An empty limit (e.g. an unset parameter) means no limit
+  const limitValue = directives.limit !== undefined ? evaluate(directives.limit, responseContext, functions) : undefined;
+  const limit = limitValue === undefined || limitValue === null || limitValue === '' ? Infinity : Number(limitValue);
+
+  if (directives.iterate !== undefined) {
+    hasOutput = true;
+    const iterate = typeof directives.iterate === 'object' ? directives.iterate : { container: directives.iterate };
+    const items = evaluate(iterate.container, responseContext, functions);
+    for (const item of Array.isArray(items) ? items : []) {
+      if (page.emitted + emitted >= limit) break;
+      const itemContext = { ...responseContext, item };
+      if (iterate.condition !== undefined && !evaluate(iterate.condition, itemContext, functions)) {
+        continue;
+      }
+      if (directives.trigger !== undefined && !advanceTrigger(directives.trigger, itemContext, options.epoch, result, functions)) {
+        continue;
+      }
+      result.output.push(directives.output !== undefined ? evaluate(directives.output, itemContext, functions) : item);
+      emitted++;
+    }
+  } else if (directives.output !== undefined) {
+    hasOutput = true;
+    result.output.push(evaluate(directives.output, responseContext, functions));
+    emitted = 1;
+  }
+
+  return { context: responseContext, hasOutput, emitted, limitReached: page.emitted + emitted >= limit };
+}
+
+function compareIds(a: any, b: any): number {
+  const numeric = Number(a) - Number(b);
+  if (!Number.isNaN(numeric)) return numeric;
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+/**
+ * Order of two trigger items. Date triggers compare dates, and items with the
+ * same date by id, so items that share the epoch's date are only dropped up to
+ * the epoch's id.
+ */
+function compareTriggerStates(type: string, a: TriggerState, b: TriggerState): number {
+  if (type === 'date') {
+    return new Date(a.date!).getTime() - new Date(b.date!).getTime() || compareIds(a.id, b.id);
+  }
+  return compareIds(a.id, b.id);
+}
+
+/**
+ * Whether a trigger item is newer than the previous run's epoch; if so it is
+ * recorded as the new epoch when it is the newest item seen in this run.
+ */
+function advanceTrigger(
+  trigger: any,
+  itemContext: ImlContext,
+  previous: TriggerState | undefined,
+  result: RunResult,
+  functions: Record<string, ImlFunction>
+): boolean {
+  const type = trigger.type || 'id';
+  const key = type === 'date' ? 'date' : 'id';
+  const state: TriggerState = evaluate({ id: trigger.id, date: trigger.date }, itemContext, functions);
+
+  if (previous?.[key] !== undefined && compareTriggerStates(type, state, previous) <= 0) {
+    return false;
+  }
+  if (result.epoch?.[key] === undefined || compareTriggerStates(type, state, result.epoch) > 0) {
+    result.epoch = state;
+  }
+  return true;
+}
+
+/**
+ * Run a module, RPC or connection definition with the app's base applied.
+ */
+export async function runModule(module: any, options: Omit<RunOptions, 'base' | 'common'>): Promise<RunResult> {
+  return runCommunication(module.communication, {
+    ...options,
+    base: loadAppFile('base.imljson'),
+    common: loadAppFile('common.imljson'),
+    functions: { ...loadAppFunctions(), ...(options.functions || {}) },
+  });
+}
+
+/**
+ * The interface Make.com shows for a module with these parameters: entries
+ * that are IML expressions (e.g. `{{schemaInterface(parameters.responseFields)}}`)
+ * are replaced by the fields they return, and `rpc://name` entries by the
+ * bundles of that RPC, run with the same parameters (which needs `options`).
+ */
+export async function resolveInterface(
+  module: any,
+  parameters: Record<string, any> = {},
+  options?: Omit<RunOptions, 'base' | 'common' | 'parameters'>
+): Promise<any[]> {
+  const functions = { ...BUILTIN_FUNCTIONS, ...loadAppFunctions() };
+  const context: ImlContext = { parameters, common: loadAppFile('common.imljson') };
+  const resolved: any[] = [];
+  for (const field of module.interface || []) {
+    const rpc = typeof field === 'string' ? field.match(/^rpc:\/\/(\w+)$/) : null;
+    if (rpc) {
+      if (!options) throw new Error(`Interface entry ${field} needs a transport to run`);
+      resolved.push(...(await runModule(loadAppFile(`rpcs/${rpc[1]}.imljson`), { ...options, parameters })).output);
+    } else if (typeof field === 'string') {
+      const fields = evaluate(field, context, functions);
+      resolved.push(...(Array.isArray(fields) ? fields : []));
+    } else {
+      resolved.push(field);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Run a webhook's `attach` or `detach` request with the app's base applied.
+ * For attach, `options.webhook` holds the URL Make.com assigned; for detach,
+ * the data attach returned (e.g. `externalHookId`).
+ */
+export async function runWebhookHook(
+  webhook: any,
+  hook: 'attach' | 'detach',
+  options: Omit<RunOptions, 'base' | 'common'>
+): Promise<RunResult> {
+  return runModule({ communication: webhook[hook] }, options);
+}
+
+/**
+ * Map a request received on the webhook URL to output bundles, as Make.com
+ * does with the webhook's `communication`: an optional `condition`, then
+ * `iterate` and `output`. Without `output` the body itself is the bundle.
+ */
+export function processWebhookRequest(
+  webhook: any,
+  request: IncomingRequest,
+  options: { parameters?: Record<string, any>; connection?: Record<string, any>; functions?: Record<string, ImlFunction> } = {}
+): any[] {
+  const spec = webhook.communication || {};
+  const functions = { ...BUILTIN_FUNCTIONS, ...loadAppFunctions(), ...(options.functions || {}) };
+  const context: ImlContext = {
+    parameters: options.parameters || {},
+    connection: options.connection || {},
+    common: loadAppFile('common.imljson'),
+    body: request.body,
+    headers: request.headers || {},
+    query: request.query || {},
+  };
+
+  if (spec.condition !== undefined && !evaluate(spec.condition, context, functions)) {
+    return [];
+  }
+  if (spec.iterate === undefined) {
+    return [spec.output !== undefined ? evaluate(spec.output, context, functions) : request.body];
+  }
+
+  const iterate = typeof spec.iterate === 'object' ? spec.iterate : { container: spec.iterate };
+  const items = evaluate(iterate.container, context, functions);
+  return (Array.isArray(items) ? items : [])
+    .map(item => ({ ...context, item }))
+    .filter(itemContext => iterate.condition === undefined || evaluate(iterate.condition, itemContext, functions))
+    .map(itemContext => spec.output !== undefined ? evaluate(spec.output, itemContext, functions) : itemContext.item);
+}
+
+function buildUrl(request: HttpRequest): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(request.qs)) {
+    query.append(key, stringify(value));
+  }
+  const qs = query.toString();
+  return qs ? `${request.url}${request.url.includes('?') ? '&' : '?'}${qs}` : request.url;
+}
+
+/**
+ * Transport that sends requests over the network with fetch.
+ */
+export function createFetchTransport(): Transport {
+  return async (request) => {
+    const response = await fetch(buildUrl(request), {
+      method: request.method,
+      headers: request.headers,
+      body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+    });
+
+    const text = await response.text();
+    let body: any = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Non-JSON responses are passed through as text
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    return { statusCode: response.status, headers, body };
+  };
+}
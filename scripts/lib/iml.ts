@@ -0,0 +1,494 @@
+/**
+ * IML Expression Evaluator
+ *
+ * Evaluates the {{...}} expressions Make.com uses inside .imljson files, so
+ * module communication can be simulated locally. Supports path access
+ * (`body.items[0].name`), literals, the usual JS-style operators and the
+ * built-in functions our modules rely on (if, ifempty, first, parseJSON, ...).
+ *
+ * A string that consists of exactly one {{expression}} evaluates to the raw
+ * value (object, array, number); anything else is string interpolation.
+ */
+
+export type ImlContext = Record<string, any>;
+export type ImlFunction = (...args: any[]) => any;
+
+export class ImlError extends Error {
+  constructor(message: string, public expression?: string) {
+    super(expression ? `${message} in "{{${expression}}}"` : message);
+    this.name = 'ImlError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type TokenType = 'number' | 'string' | 'ident' | 'op' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+}
+
+const OPERATORS = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||',
+  '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '.', ',', '(', ')', '[', ']',
+];
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const ch = expression[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      const match = expression.slice(i).match(/^[0-9]+(\.[0-9]+)?/)!;
+      tokens.push({ type: 'number', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      let value = '';
+      let end = i + 1;
+      while (end < expression.length && expression[end] !== ch) {
+        if (expression[end] === '\\' && end + 1 < expression.length) {
+          end++;
+        }
+        value += expression[end];
+        end++;
+      }
+      if (end >= expression.length) {
+        throw new ImlError('Unterminated string literal', expression);
+      }
+      tokens.push({ type: 'string', value });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      let end = i;
+      while (end < expression.length && /[A-Za-z0-9_$]/.test(expression[end])) end++;
+      tokens.push({ type: 'ident', value: expression.slice(i, end) });
+      i = end;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => expression.startsWith(o, i));
+    if (!op) {
+      throw new ImlError(`Unexpected character "${ch}"`, expression);
+    }
+    tokens.push({ type: 'op', value: op });
+    i += op.length;
+  }
+
+  tokens.push({ type: 'eof', value: '' });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+type Node =
+  | { kind: 'literal'; value: any }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'member'; object: Node; property: Node }
+  | { kind: 'call'; name: string; args: Node[] }
+  | { kind: 'unary'; operator: string; operand: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node }
+  | { kind: 'conditional'; test: Node; consequent: Node; alternate: Node };
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '===': 3, '!==': 3,
+  '<': 4, '>': 4, '<=': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  parse(): Node {
+    const node = this.parseConditional();
+    if (this.peek().type !== 'eof') {
+      throw new ImlError(`Unexpected token "${this.peek().value}"`, this.source);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'op' && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    if (!this.isOp(value)) {
+      throw new ImlError(`Expected "${value}" but found "${this.peek().value}"`, this.source);
+    }
+    this.pos++;
+  }
+
+  private parseConditional(): Node {
+    const test = this.parseBinary(1);
+    if (this.isOp('?')) {
+      this.pos++;
+      const consequent = this.parseConditional();
+      this.expectOp(':');
+      const alternate = this.parseConditional();
+      return { kind: 'conditional', test, consequent, alternate };
+    }
+    return test;
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === 'op' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.pos++;
+      const right = this.parseBinary(precedence + 1);
+      left = { kind: 'binary', operator: token.value, left, right };
+    }
+  }
+
+  private parseUnary(): Node {
+    if (this.isOp('!') || this.isOp('-')) {
+      const operator = this.next().value;
+      return { kind: 'unary', operator, operand: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: Node): Node {
+    for (;;) {
+      if (this.isOp('.')) {
+        this.pos++;
+        const token = this.next();
+        if (token.type !== 'ident' && token.type !== 'number') {
+          throw new ImlError(`Expected property name after "."`, this.source);
+        }
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: token.value } };
+      } else if (this.isOp('[')) {
+        this.pos++;
+        const property = this.parseConditional();
+        this.expectOp(']');
+        node = { kind: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'ident':
+        if (token.value === 'true') return { kind: 'literal', value: true };
+        if (token.value === 'false') return { kind: 'literal', value: false };
+        if (token.value === 'null') return { kind: 'literal', value: null };
+        if (token.value === 'undefined') return { kind: 'literal', value: undefined };
+        if (token.value === 'emptyarray') return { kind: 'literal', value: [] };
+        if (this.isOp('(')) {
+          this.pos++;
+          const args: Node[] = [];
+          if (!this.isOp(')')) {
+            args.push(this.parseConditional());
+            while (this.isOp(',')) {
+              this.pos++;
+              args.push(this.parseConditional());
+            }
+          }
+          this.expectOp(')');
+          return { kind: 'call', name: token.value, args };
+        }
+        return { kind: 'identifier', name: token.value };
+      case 'op':
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expectOp(')');
+          return node;
+        }
+        break;
+    }
+
+    throw new ImlError(`Unexpected token "${token.value || 'end of expression'}"`, this.source);
+  }
+}
+
+const parseCache = new Map<string, Node>();
+
+function parseExpression(expression: string): Node {
+  let node = parseCache.get(expression);
+  if (!node) {
+    node = new Parser(tokenize(expression), expression).parse();
+    parseCache.set(expression, node);
+  }
+  return node;
+}
+
+// ---------------------------------------------------------------------------
+// Built-in functions
+// ---------------------------------------------------------------------------
+
+export function isEmpty(value: any): boolean {
+  return value === undefined || value === null || value === '' ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+function toArray(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  if (value === undefined || value === null) return [];
+  return [value];
+}
+
+function getPath(value: any, path: string): any {
+  return String(path).split('.').reduce((current, key) => {
+    if (current === undefined || current === null) return undefined;
+    // Array indexes are 1-based, as in Make.com
+    return Array.isArray(current) && /^\d+$/.test(key) ? current[Number(key) - 1] : current[key];
+  }, value);
+}
+
+export function stringify(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export const BUILTIN_FUNCTIONS: Record<string, ImlFunction> = {
+  // Flow control
+  if: (condition, whenTrue, whenFalse) => condition ? whenTrue : whenFalse,
+  ifempty: (...values) => values.find(v => !isEmpty(v)) ?? values[values.length - 1],
+  or: (...values) => values.some(Boolean),
+  and: (...values) => values.every(Boolean),
+  not: value => !value,
+
+  // Collections
+  first: value => toArray(value)[0],
+  last: value => toArray(value)[toArray(value).length - 1],
+  length: value => typeof value === 'string' ? value.length : toArray(value).length,
+  keys: value => value && typeof value === 'object' ? Object.keys(value) : [],
+  get: (value, path) => getPath(value, path),
+  contains: (haystack, needle) => typeof haystack === 'string'
+    ? haystack.includes(stringify(needle))
+    : toArray(haystack).includes(needle),
+  join: (value, separator = ',') => toArray(value).map(stringify).join(separator),
+  split: (value, separator = ',') => stringify(value).split(separator),
+  slice: (value, start, end) => toArray(value).slice(start, end),
+  add: (value, ...items) => [...toArray(value), ...items],
+  merge: (...values) => values.flatMap(toArray),
+  map: (value, key) => toArray(value).map(item => getPath(item, key)),
+  distinct: value => Array.from(new Set(toArray(value))),
+
+  // Text
+  lower: value => stringify(value).toLowerCase(),
+  upper: value => stringify(value).toUpperCase(),
+  trim: value => stringify(value).trim(),
+  replace: (value, search, replacement) => stringify(value).split(stringify(search)).join(stringify(replacement)),
+  toString: (value: any) => stringify(value),
+  encodeURL: value => encodeURIComponent(stringify(value)),
+
+  // Numbers
+  parseNumber: value => Number(value),
+  ceil: value => Math.ceil(value),
+  floor: value => Math.floor(value),
+  round: value => Math.round(value),
+  min: (...values) => Math.min(...values.flatMap(toArray)),
+  max: (...values) => Math.max(...values.flatMap(toArray)),
+
+  // JSON
+  parseJSON: value => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch (e: any) {
+      throw new ImlError(`parseJSON failed: ${e.message}`);
+    }
+  },
+
+  // Binary data, e.g. the content of a file bundle
+  toBinary: (value, encoding = 'utf8') => Buffer.isBuffer(value) ? value : Buffer.from(stringify(value), encoding),
+};
+
+/**
+ * Compile a custom IML function (app/functions/<name>.js), whose code
+ * declares `function <name>(...)`. As in Make.com, it can call the built-in
+ * functions as `iml.<name>(...)`.
+ */
+export function compileFunction(name: string, code: string): ImlFunction {
+  if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+    throw new ImlError(`"${name}" is not a valid function name`);
+  }
+  const fn = new Function('iml', `${code}\nreturn typeof ${name} === 'function' ? ${name} : undefined;`)(BUILTIN_FUNCTIONS);
+  if (!fn) {
+    throw new ImlError(`the code does not declare function ${name}()`);
+  }
+  return fn;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function evaluateNode(node: Node, context: ImlContext, functions: Record<string, ImlFunction>): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return context[node.name];
+
+    case 'member': {
+      const object = evaluateNode(node.object, context, functions);
+      const property = evaluateNode(node.property, context, functions);
+      if (object === undefined || object === null) return undefined;
+      return object[property];
+    }
+
+    case 'call': {
+      const fn = functions[node.name];
+      if (!fn) {
+        throw new ImlError(`Unknown function "${node.name}"`);
+      }
+      // if() only evaluates the branch it returns, so guarded paths never throw
+      if (node.name === 'if') {
+        const condition = evaluateNode(node.args[0], context, functions);
+        const branch = condition ? node.args[1] : node.args[2];
+        return branch ? evaluateNode(branch, context, functions) : undefined;
+      }
+      return fn(...node.args.map(arg => evaluateNode(arg, context, functions)));
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, context, functions);
+      return node.operator === '!' ? !operand : -operand;
+    }
+
+    case 'conditional':
+      return evaluateNode(node.test, context, functions)
+        ? evaluateNode(node.consequent, context, functions)
+        : evaluateNode(node.alternate, context, functions);
+
+    case 'binary': {
+      if (node.operator === '&&') {
+        const left = evaluateNode(node.left, context, functions);
+        return left ? evaluateNode(node.right, context, functions) : left;
+      }
+      if (node.operator === '||') {
+        const left = evaluateNode(node.left, context, functions);
+        return left ? left : evaluateNode(node.right, context, functions);
+      }
+
+      const left = evaluateNode(node.left, context, functions);
+      const right = evaluateNode(node.right, context, functions);
+      switch (node.operator) {
+        // IML comparisons follow JavaScript semantics, loose equality included
+        case '==': return left == right;
+        case '!=': return left != right;
+        case '===': return left === right;
+        case '!==': return left !== right;
+        case '<': return left < right;
+        case '>': return left > right;
+        case '<=': return left <= right;
+        case '>=': return left >= right;
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '%': return left % right;
+      }
+    }
+  }
+  throw new ImlError(`Unsupported expression node`);
+}
+
+/**
+ * Evaluate a bare IML expression (without the surrounding braces).
+ */
+export function evaluateExpression(
+  expression: string,
+  context: ImlContext,
+  functions: Record<string, ImlFunction> = BUILTIN_FUNCTIONS
+): any {
+  try {
+    return evaluateNode(parseExpression(expression), context, functions);
+  } catch (e) {
+    if (e instanceof ImlError && !e.expression) {
+      throw new ImlError(e.message, expression);
+    }
+    throw e;
+  }
+}
+
+const TEMPLATE_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const SINGLE_EXPRESSION = /^\{\{([\s\S]*?)\}\}$/;
+
+/**
+ * Evaluate a string that may contain {{...}} expressions.
+ */
+export function evaluateString(
+  template: string,
+  context: ImlContext,
+  functions: Record<string, ImlFunction> = BUILTIN_FUNCTIONS
+): any {
+  const single = template.match(SINGLE_EXPRESSION);
+  if (single && !single[1].includes('{{')) {
+    return evaluateExpression(single[1], context, functions);
+  }
+  return template.replace(TEMPLATE_PATTERN, (_, expression) =>
+    stringify(evaluateExpression(expression, context, functions)));
+}
+
+/**
+ * Recursively evaluate an IML value: strings are templates, object keys may
+ * contain expressions too (e.g. `"{{parameters.fieldName}}": {...}`).
+ */
+export function evaluate(
+  value: any,
+  context: ImlContext,
+  functions: Record<string, ImlFunction> = BUILTIN_FUNCTIONS
+): any {
+  if (typeof value === 'string') {
+    return evaluateString(value, context, functions);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => evaluate(item, context, functions));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const evaluatedKey = key.includes('{{') ? stringify(evaluateString(key, context, functions)) : key;
+      result[evaluatedKey] = evaluate(child, context, functions);
+    }
+    return result;
+  }
+  return value;
+}
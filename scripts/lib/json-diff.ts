@@ -0,0 +1,87 @@
+/**
+ * Structural JSON Diff
+ *
+ * Compares two JSON values and lists the changes by path, e.g.
+ * `[3].body.payload.query.preview: false → true`. Used to compare local
+ * .imljson components with what is deployed in Make.com.
+ */
+
+export interface JsonChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Append a key or index to a JSON path: `a.b`, `a[0]`, `a["x-y"]`.
+ */
+export function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  if (IDENTIFIER.test(key)) return path ? `${path}.${key}` : key;
+  return `${path}[${JSON.stringify(key)}]`;
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * List every difference between `before` and `after`.
+ */
+export function diffJson(before: any, after: any, path: string = ''): JsonChange[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      if (i >= before.length) {
+        changes.push({ path: childPath(path, i), kind: 'added', after: after[i] });
+      } else if (i >= after.length) {
+        changes.push({ path: childPath(path, i), kind: 'removed', before: before[i] });
+      } else {
+        changes.push(...diffJson(before[i], after[i], childPath(path, i)));
+      }
+    }
+    return changes;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const changes: JsonChange[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      if (!(key in after)) {
+        changes.push({ path: childPath(path, key), kind: 'removed', before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: childPath(path, key), kind: 'added', after: after[key] });
+      } else {
+        changes.push(...diffJson(before[key], after[key], childPath(path, key)));
+      }
+    }
+    return changes;
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{ path: path || '(root)', kind: 'changed', before, after }];
+}
+
+function preview(value: any, maxLength: number = 60): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Format a change as a single line: `~ path: before → after`.
+ */
+export function formatChange(change: JsonChange): string {
+  switch (change.kind) {
+    case 'added':
+      return `+ ${change.path}: ${preview(change.after)}`;
+    case 'removed':
+      return `- ${change.path}: ${preview(change.before)}`;
+    case 'changed':
+      return `~ ${change.path}: ${preview(change.before)} → ${preview(change.after)}`;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Make.com SDK API Client
+ *
+ * Shared by the deploy and pull scripts: authenticated requests against
+ * /v2/sdk/apps and the mapping between our .imljson keys and the section
+ * names Make.com uses for each component.
+ */
+
+// Local config key -> Make.com section name
+export const MODULE_SECTIONS: Array<[string, string]> = [
+  ['communication', 'api'],
+  ['parameters', 'expect'],
+  ['interface', 'interface'],
+  ['samples', 'samples'],
+  ['epoch', 'epoch'],
+];
+
+export const RPC_SECTIONS: Array<[string, string]> = [
+  ['communication', 'api'],
+  ['parameters', 'parameters'],
+];
+
+export const CONNECTION_SECTIONS: Array<[string, string]> = [
+  ['communication', 'api'],
+  ['parameters', 'parameters'],
+];
+
+export const WEBHOOK_SECTIONS: Array<[string, string]> = [
+  ['communication', 'api'],
+  ['parameters', 'parameters'],
+  ['attach', 'attach'],
+  ['detach', 'detach'],
+];
+
+// Make.com module type IDs
+const MODULE_TYPE_IDS: Record<string, number> = {
+  'action': 4,
+  'search': 9,
+  'trigger': 1,
+  'instant_trigger': 5,
+  'responder': 11,
+  'universal': 12,
+};
+
+export const MODULE_TYPES = Object.keys(MODULE_TYPE_IDS);
+
+export function getModuleTypeId(type: string): number {
+  return MODULE_TYPE_IDS[type] || 4;
+}
+
+export function getModuleType(typeId: number): string {
+  const entry = Object.entries(MODULE_TYPE_IDS).find(([, id]) => id === typeId);
+  return entry ? entry[0] : 'action';
+}
+
+/**
+ * Sections of a module of the given type. Triggers have no input bundle to
+ * map from, so their parameters are static ("parameters") not mappable ("expect").
+ */
+export function getModuleSections(type: string): Array<[string, string]> {
+  if (type !== 'trigger' && type !== 'instant_trigger') {
+    return MODULE_SECTIONS;
+  }
+  return MODULE_SECTIONS.map(([key, section]) => [key, key === 'parameters' ? 'parameters' : section]);
+}
+
+export interface SdkClient {
+  makeRequest(
+    method: 'GET' | 'POST' | 'PUT',
+    endpoint: string,
+    data?: string | object,
+    contentType?: string
+  ): Promise<any>;
+  /** Fetch a component's code. Returns undefined when it doesn't exist yet. */
+  fetchRemoteComponent(endpoint: string): Promise<any>;
+}
+
+export function createSdkClient(baseUrl: string, apiKey: string): SdkClient {
+  const apiBase = `${baseUrl}/v2/sdk/apps`;
+
+  async function makeRequest(
+    method: 'GET' | 'POST' | 'PUT',
+    endpoint: string,
+    data?: string | object,
+    contentType: string = 'application/json'
+  ): Promise<any> {
+    const url = `${apiBase}${endpoint}`;
+
+    const headers: Record<string, string> = {
+      'Authorization': `Token ${apiKey}`,
+      'Content-Type': contentType,
+    };
+
+    const body = typeof data === 'string' ? data : (data ? JSON.stringify(data) : undefined);
+
+    console.log(`  ${method} ${endpoint}`);
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      body,
+    });
+
+    const text = await response.text();
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${text}`);
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  async function fetchRemoteComponent(endpoint: string): Promise<any> {
+    try {
+      const remote = await makeRequest('GET', endpoint);
+      // Sections that were never saved come back empty
+      if (remote === '' || remote === null) {
+        return undefined;
+      }
+      if (typeof remote === 'string') {
+        try {
+          return JSON.parse(remote);
+        } catch {
+          return remote;
+        }
+      }
+      return remote;
+    } catch (error: any) {
+      if (/^HTTP 404/.test(error.message)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  return { makeRequest, fetchRemoteComponent };
+}
@@ -0,0 +1,826 @@
+/**
+ * Mock EveryRow Engine
+ *
+ * A local stand-in for the EveryRow engine API, implementing the endpoints
+ * and response shapes our modules read:
+ *
+ *   POST /sessions/create        -> { session_id }
+ *   GET  /sessions               -> { sessions: [{ session_id, name, created_at, task_count }], total, next_offset, has_more }
+ *   GET  /sessions/:id           -> { session_id, name, created_at, task_count }
+ *   DELETE /sessions/:id         -> { session_id, deleted, cancelled_tasks }
+ *   POST /tasks                  -> { task_id }
+ *   GET  /tasks                  -> { tasks: [{ task_id, session_id, task_type, status, artifact_id, error, finished_at }] }
+ *   GET  /tasks/:id/status       -> { task_id, status, artifact_id, error }
+ *   POST /tasks/:id/cancel       -> { task_id, status }
+ *   GET  /artifacts?artifact_ids -> [{ id, type, artifacts: [{ id, data }] }], paged with offset/limit -> [{ ..., total, next_offset, has_more }]
+ *   GET  /whoami                 -> { email }
+ *   GET  /models                 -> { models: [{ id, name }] }
+ *   GET  /webhooks               -> { webhooks: [{ webhook_id, url, events }] }
+ *   POST /webhooks               -> { webhook_id }
+ *   DELETE /webhooks/:id         -> { webhook_id, deleted }
+ *
+ * Task progress is driven by status polls rather than wall-clock time, so
+ * tests are deterministic: every GET /tasks/:id/status advances the task one
+ * step through its lifecycle. When a task finishes (failed, or completed with
+ * its artifact ID), every registered webhook gets a `task.completed` callback.
+ * Cancelling a pending or running task stops it there; it reports `cancelled`
+ * from then on and sends no callback. Deleting a session cancels its
+ * unfinished tasks and removes it and its tasks.
+ * Session creation and finish times come from a clock that ticks one second
+ * per created session or finished task.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export type TaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface InjectedError {
+  method?: string;
+  /** Exact path or pattern matched against the request path (no query string) */
+  path: string | RegExp;
+  status: number;
+  body?: any;
+  /** How many requests to fail; unlimited when omitted */
+  times?: number;
+}
+
+export interface MockEngineOptions {
+  port?: number;
+  /** The only API key accepted as a Bearer token (default: sk-mock) */
+  apiKey?: string;
+  email?: string;
+  /** Statuses a task reports on successive polls, per task type ('*' is the fallback) */
+  lifecycles?: Record<string, TaskStatus[]>;
+  /** Status polls after completion before the artifact ID is reported, per task type */
+  artifactDelays?: Record<string, number>;
+  /** Task types that fail, mapped to the error message they report */
+  failures?: Record<string, string>;
+  errors?: InjectedError[];
+  models?: Array<{ id: string; name: string }>;
+}
+
+export interface MockSession {
+  id: string;
+  name: string;
+  taskIds: string[];
+  createdAt: string;
+}
+
+export interface MockTask {
+  id: string;
+  sessionId: string;
+  taskType: string;
+  payload: any;
+  lifecycle: TaskStatus[];
+  polls: number;
+  artifactDelay: number;
+  artifactId: string | null;
+  error: string | null;
+  /** Status reported by the last poll */
+  status: TaskStatus;
+  /** When the task first reported a final status (and callbacks were sent), or was cancelled */
+  finishedAt: string | null;
+}
+
+export interface MockWebhook {
+  id: string;
+  url: string;
+  events: string[];
+}
+
+export interface WebhookDelivery {
+  url: string;
+  body: any;
+  /** Status code the receiver answered with; unset when the request failed */
+  statusCode?: number;
+  error?: string;
+}
+
+export interface MockArtifact {
+  id: string;
+  rows: any[];
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+}
+
+export interface MockEngine {
+  url: string;
+  apiKey: string;
+  sessions: Map<string, MockSession>;
+  tasks: Map<string, MockTask>;
+  artifacts: Map<string, MockArtifact>;
+  webhooks: Map<string, MockWebhook>;
+  requests: RecordedRequest[];
+  /** Completion callbacks sent to registered webhooks */
+  deliveries: WebhookDelivery[];
+  /** Queue an HTTP error for matching requests */
+  injectError(error: InjectedError): void;
+  /** Create an artifact directly, e.g. to test modules that read results */
+  createArtifact(rows: any[]): string;
+  /**
+   * Advance a task to the end of its lifecycle as if it were polled, and
+   * resolve with its final status once the webhook callbacks were delivered.
+   */
+  finishTask(id: string): Promise<any>;
+  close(): Promise<void>;
+}
+
+const DEFAULT_LIFECYCLES: Record<string, TaskStatus[]> = {
+  create_group: ['completed'],
+  combine_groups: ['completed'],
+  '*': ['pending', 'running', 'completed'],
+};
+
+// Start of the mock clock, so finish times are the same on every run
+const CLOCK_START = Date.parse('2025-01-01T00:00:00Z');
+
+// Page size of /sessions and paged /artifacts when no limit is given, and the largest allowed
+const DEFAULT_ROWS_LIMIT = 100;
+const MAX_ROWS_LIMIT = 1000;
+
+// Left rows a preview merge matches
+const MERGE_PREVIEW_ROWS = 5;
+
+const DEFAULT_MODELS = [
+  { id: 'claude-3-5-haiku', name: 'Claude 3.5 Haiku' },
+  { id: 'claude-3-5-sonnet', name: 'Claude 3.5 Sonnet' },
+  { id: 'gpt-4o', name: 'GPT-4o' },
+  { id: 'gpt-4o-mini', name: 'GPT-4o Mini' },
+];
+
+class HttpError extends Error {
+  constructor(public status: number, public detail: string) {
+    super(detail);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Task results
+// ---------------------------------------------------------------------------
+
+function normalizeValue(value: any): string {
+  return String(value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function normalizeKey(row: any): string {
+  return normalizeValue(Object.values(row || {})[0]);
+}
+
+function sampleValue(type: string, index: number): any {
+  switch (type) {
+    case 'int': return index + 1;
+    case 'bool': return index % 2 === 0;
+    case 'str': return `value ${index + 1}`;
+    default: return Math.round((1 - index * 0.1) * 100) / 100;
+  }
+}
+
+function schemaFields(schema: any): Array<[string, any]> {
+  return Object.entries(schema || {}).filter(([name]) => name !== '_model_name');
+}
+
+/**
+ * Screen the rows: every other row passes, starting with the first. Rows get
+ * the custom response fields; with return_all_rows every row is kept with
+ * the pass field and a rationale, otherwise only passing rows are returned.
+ */
+function screenRows(query: any, input: any[]): any[] {
+  const fields = query.response_schema_type === 'CUSTOM' ? schemaFields(query.response_schema) : [];
+  const screened = input.map((row: any, i: number) => ({
+    row: { ...row, ...Object.fromEntries(fields.map(([name, spec]) => [name, sampleValue(spec.type, i)])) },
+    passes: i % 2 === 0,
+  }));
+  if (!query.return_all_rows) {
+    return screened.filter(entry => entry.passes).map(entry => entry.row);
+  }
+  const passField = query.pass_field || 'passes';
+  const rationaleField = query.rationale_field || 'rationale';
+  return screened.map(({ row, passes }) => ({
+    ...row,
+    [passField]: passes,
+    [rationaleField]: `Mock screen ${passes ? 'passed' : 'rejected'} ${Object.values(row)[0] ?? 'row'}: ${query.task}`,
+  }));
+}
+
+/**
+ * Join each left row with its match in the right table: the right row whose
+ * merge_on_right value equals (or else contains, or is contained in) the left
+ * row's merge_on_left value, ignoring case and punctuation, or the row at the
+ * same position when no key is given. Left columns win on conflicts. With join_type "left", unmatched
+ * left rows are kept with the right table's columns empty.
+ */
+function mergeRows(query: any, left: any[], right: any[]): any[] {
+  const leftKey = query.merge_on_left || query.merge_on_right;
+  const rightKey = query.merge_on_right || query.merge_on_left;
+  const rightColumns = [...new Set(right.flatMap(row => Object.keys(row || {})))];
+  const merged: any[] = [];
+
+  left.forEach((row, i) => {
+    let match: any;
+    let confidence = 0;
+    let explanation = 'No match in the right table';
+    if (leftKey) {
+      const value = normalizeValue(row[leftKey]);
+      const candidates = value ? right.filter(candidate => normalizeValue(candidate[rightKey])) : [];
+      const exact = candidates.find(candidate => normalizeValue(candidate[rightKey]) === value);
+      match = exact || candidates.find(candidate => {
+        const other = normalizeValue(candidate[rightKey]);
+        return other.includes(value) || value.includes(other);
+      });
+      if (match) {
+        confidence = !exact ? 0.7 : String(match[rightKey]) === String(row[leftKey]) ? 1 : 0.9;
+        explanation = `${leftKey} "${row[leftKey]}" matches ${rightKey} "${match[rightKey]}"`;
+      }
+    } else if (i < right.length) {
+      match = right[i];
+      confidence = 0.5;
+      explanation = `Row ${i + 1} of both tables`;
+    }
+    if (!match && query.join_type !== 'left') {
+      return;
+    }
+
+    const result = { ...Object.fromEntries(rightColumns.map(column => [column, null])), ...(match || {}), ...row };
+    if (query.include_match_details !== false) {
+      result.match_confidence = confidence;
+      result.match_explanation = explanation;
+    }
+    merged.push(result);
+  });
+  return merged;
+}
+
+/**
+ * Group rows whose first column is equal, ignoring case and punctuation, into
+ * clusters numbered in order of first appearance. The representative is the
+ * first row of a cluster, or with representative_rule "most_complete" the one
+ * with the most non-empty values. output_mode "deduplicated" returns the
+ * representatives, "annotated" every row with its cluster, and "clusters" one
+ * row per cluster with its members.
+ */
+function dedupeRows(query: any, input: any[]): any[] {
+  const filled = (row: any) => Object.values(row || {}).filter(value => value !== null && value !== undefined && value !== '').length;
+  const clusters: Array<{ id: string; rows: any[]; representative: any }> = [];
+  const byKey = new Map<string, typeof clusters[number]>();
+  const clusterOf = new Map<any, typeof clusters[number]>();
+
+  for (const row of input) {
+    const key = normalizeKey(row);
+    let cluster = byKey.get(key);
+    if (!cluster) {
+      cluster = { id: `cluster-${clusters.length + 1}`, rows: [], representative: row };
+      byKey.set(key, cluster);
+      clusters.push(cluster);
+    }
+    cluster.rows.push(row);
+    clusterOf.set(row, cluster);
+  }
+  for (const cluster of clusters) {
+    if (query.representative_rule === 'most_complete') {
+      cluster.representative = cluster.rows.reduce((best, row) => (filled(row) > filled(best) ? row : best));
+    }
+  }
+
+  const explain = (row: any, representative: any) => row === representative
+    ? null
+    : `Same as "${Object.values(representative)[0]}": ${query.equivalence_relation}`;
+
+  switch (query.output_mode) {
+    case 'annotated':
+      return input.map(row => {
+        const cluster = clusterOf.get(row)!;
+        return {
+          ...row,
+          cluster_id: cluster.id,
+          is_representative: row === cluster.representative,
+          duplicate_explanation: explain(row, cluster.representative),
+        };
+      });
+    case 'clusters':
+      return clusters.map(cluster => ({
+        cluster_id: cluster.id,
+        size: cluster.rows.length,
+        representative: cluster.representative,
+        members: cluster.rows,
+        explanation: cluster.rows.length > 1 ? `${cluster.rows.length} rows are equivalent: ${query.equivalence_relation}` : null,
+      }));
+    default:
+      return clusters.map(cluster => cluster.representative);
+  }
+}
+
+/**
+ * Produce deterministic output rows for a finished task.
+ */
+function computeResult(task: MockTask, artifacts: Map<string, MockArtifact>): any[] {
+  const { payload } = task;
+  const query = payload.query || {};
+  const input = (payload.input_artifacts || []).flatMap((id: string) => artifacts.get(id)?.rows || []);
+  const context = (payload.context_artifacts || []).flatMap((id: string) => artifacts.get(id)?.rows || []);
+
+  switch (task.taskType) {
+    case 'create_group':
+      return query.data_to_create || [];
+
+    case 'combine_groups':
+      // Rows of the uploaded batches, in order
+      return input;
+
+    case 'deep_rank': {
+      const fields = schemaFields(query.response_schema);
+      const field = query.field_to_sort_by;
+      const ranked = input.map((row: any, i: number) => {
+        const scored = { ...row };
+        for (const [name, spec] of fields) {
+          scored[name] = sampleValue(spec.type, i);
+        }
+        return scored;
+      });
+      ranked.sort((a: any, b: any) => (a[field] > b[field] ? 1 : a[field] < b[field] ? -1 : 0));
+      return query.ascending_order ? ranked : ranked.reverse();
+    }
+
+    case 'deep_screen':
+      return screenRows(query, input);
+
+    case 'dedupe':
+      return dedupeRows(query, input);
+
+    case 'deep_merge':
+      return mergeRows(query, query.preview ? input.slice(0, MERGE_PREVIEW_ROWS) : input, context);
+
+    case 'agent': {
+      // A custom response schema names the fields; otherwise one free-text column
+      const fields = query.response_schema_type === 'CUSTOM' ? schemaFields(query.response_schema) : [];
+      return input.map((row: any, i: number) => fields.length > 0
+        ? { ...row, ...Object.fromEntries(fields.map(([name, spec]) => [name, sampleValue(spec.type, i)])) }
+        : { ...row, research: `Mock research for ${Object.values(row)[0] ?? 'row'}: ${query.task}` });
+    }
+
+    default:
+      return input;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+export async function startMockEngine(options: MockEngineOptions = {}): Promise<MockEngine> {
+  const apiKey = options.apiKey || 'sk-mock';
+  const lifecycles = { ...DEFAULT_LIFECYCLES, ...(options.lifecycles || {}) };
+  const errors: InjectedError[] = [...(options.errors || [])];
+
+  const sessions = new Map<string, MockSession>();
+  const tasks = new Map<string, MockTask>();
+  const artifacts = new Map<string, MockArtifact>();
+  const webhooks = new Map<string, MockWebhook>();
+  const requests: RecordedRequest[] = [];
+  const deliveries: WebhookDelivery[] = [];
+  const pendingDeliveries = new Set<Promise<void>>();
+  let counter = 0;
+  let ticks = 0;
+
+  const now = () => new Date(CLOCK_START + ++ticks * 1000).toISOString();
+
+  const nextId = (prefix: string) => `${prefix}-${String(++counter).padStart(4, '0')}`;
+
+  function createArtifact(rows: any[]): string {
+    const id = nextId('artifact');
+    artifacts.set(id, { id, rows });
+    return id;
+  }
+
+  function takeInjectedError(method: string, path: string): InjectedError | undefined {
+    const index = errors.findIndex(e =>
+      (!e.method || e.method.toUpperCase() === method) &&
+      (typeof e.path === 'string' ? e.path === path : e.path.test(path)));
+    if (index === -1) return undefined;
+
+    const error = errors[index];
+    if (error.times !== undefined && --error.times <= 0) {
+      errors.splice(index, 1);
+    }
+    return error;
+  }
+
+  function requireTask(id: string): MockTask {
+    const task = tasks.get(id);
+    if (!task) throw new HttpError(404, `Task ${id} not found`);
+    return task;
+  }
+
+  function createTask(body: any): { task_id: string } {
+    if (!body?.session_id || !sessions.has(body.session_id)) {
+      throw new HttpError(404, `Session ${body?.session_id} not found`);
+    }
+    const payload = body.payload;
+    if (!payload?.task_type) {
+      throw new HttpError(422, 'payload.task_type is required');
+    }
+    if (payload.task_type === 'create_group' && !Array.isArray(payload.query?.data_to_create)) {
+      throw new HttpError(422, 'query.data_to_create must be an array of objects');
+    }
+    if (payload.task_type === 'combine_groups' && !payload.input_artifacts?.length) {
+      throw new HttpError(422, 'input_artifacts must list the groups to combine');
+    }
+    for (const id of [...(payload.input_artifacts || []), ...(payload.context_artifacts || [])]) {
+      if (!artifacts.has(id)) {
+        throw new HttpError(422, `Artifact ${id} not found`);
+      }
+    }
+    if (payload.task_type === 'deep_merge') {
+      validateMerge(payload);
+    }
+    if (payload.task_type === 'dedupe') {
+      validateDedupe(payload.query || {});
+    }
+    if (payload.task_type === 'deep_screen') {
+      validateScreen(payload.query || {});
+    }
+    const llm = payload.query?.llm;
+    if (llm != null && !(options.models || DEFAULT_MODELS).some(model => model.id === llm)) {
+      throw new HttpError(422, `query.llm: unknown model "${llm}"`);
+    }
+    if (payload.query?.response_schema_type === 'CUSTOM' && schemaFields(payload.query.response_schema).length === 0) {
+      throw new HttpError(422, 'query.response_schema must define at least one field when response_schema_type is CUSTOM');
+    }
+
+    const taskType = payload.task_type;
+    const task: MockTask = {
+      id: nextId('task'),
+      sessionId: body.session_id,
+      taskType,
+      payload,
+      lifecycle: lifecycles[taskType] || lifecycles['*'],
+      polls: 0,
+      artifactDelay: options.artifactDelays?.[taskType] ?? options.artifactDelays?.['*'] ?? 0,
+      artifactId: null,
+      error: null,
+      status: 'pending',
+      finishedAt: null,
+    };
+    tasks.set(task.id, task);
+    sessions.get(body.session_id)!.taskIds.push(task.id);
+    return { task_id: task.id };
+  }
+
+  function validateMerge(payload: any): void {
+    const query = payload.query || {};
+    if (query.join_type != null && !['inner', 'left'].includes(query.join_type)) {
+      throw new HttpError(422, 'query.join_type must be "inner" or "left"');
+    }
+    const tables: Array<[string, string, string[]]> = [
+      ['merge_on_left', 'left', payload.input_artifacts || []],
+      ['merge_on_right', 'right', payload.context_artifacts || []],
+    ];
+    for (const [field, table, ids] of tables) {
+      const column = query[field];
+      const rows = ids.flatMap((id: string) => artifacts.get(id)!.rows);
+      if (column && !rows.some(row => row && column in row)) {
+        throw new HttpError(422, `query.${field}: column "${column}" is not in the ${table} table`);
+      }
+    }
+  }
+
+  function validateDedupe(query: any): void {
+    if (query.output_mode != null && !['deduplicated', 'annotated', 'clusters'].includes(query.output_mode)) {
+      throw new HttpError(422, 'query.output_mode must be "deduplicated", "annotated" or "clusters"');
+    }
+    if (query.representative_rule != null && !['first', 'most_complete'].includes(query.representative_rule)) {
+      throw new HttpError(422, 'query.representative_rule must be "first" or "most_complete"');
+    }
+  }
+
+  function validateScreen(query: any): void {
+    if (query.return_all_rows && (query.pass_field || 'passes') === (query.rationale_field || 'rationale')) {
+      throw new HttpError(422, 'query.pass_field and query.rationale_field must be different');
+    }
+  }
+
+  function pollTask(task: MockTask): any {
+    if (task.status === 'cancelled') {
+      return taskStatus(task);
+    }
+    const step = Math.min(task.polls, task.lifecycle.length - 1);
+    let status = task.lifecycle[step];
+    task.polls++;
+
+    const failure = options.failures?.[task.taskType];
+    if (status === 'completed' && failure) {
+      status = 'failed';
+    }
+    if (status === 'failed' && !task.error) {
+      task.error = failure || `${task.taskType} task failed`;
+    }
+
+    // Artifacts may lag behind the completed status by a number of polls
+    if (status === 'completed' && !task.artifactId) {
+      const pollsSinceComplete = task.polls - task.lifecycle.indexOf('completed') - 1;
+      if (pollsSinceComplete >= task.artifactDelay) {
+        task.artifactId = createArtifact(computeResult(task, artifacts));
+      }
+    }
+
+    task.status = status;
+    const result = taskStatus(task);
+    if (isFinished(result) && !task.finishedAt) {
+      task.finishedAt = now();
+      notifyWebhooks({ event: 'task.completed', task_type: task.taskType, ...result });
+    }
+    return result;
+  }
+
+  function taskStatus(task: MockTask): any {
+    return {
+      task_id: task.id,
+      session_id: task.sessionId,
+      status: task.status,
+      artifact_id: task.status === 'completed' ? task.artifactId : null,
+      error: task.status === 'failed' ? task.error : null,
+    };
+  }
+
+  /**
+   * Tasks as of their last poll, oldest first (finished tasks by finish time,
+   * then task ID). Filters: session_id, status (comma-separated),
+   * finished_since (ISO date, inclusive).
+   */
+  function listTasks(query: Record<string, string>): any {
+    if (query.session_id && !sessions.has(query.session_id)) {
+      throw new HttpError(404, `Session ${query.session_id} not found`);
+    }
+    const statuses = query.status ? query.status.split(',') : undefined;
+    const since = query.finished_since ? Date.parse(query.finished_since) : undefined;
+    if (since !== undefined && Number.isNaN(since)) {
+      throw new HttpError(422, 'finished_since must be an ISO 8601 date');
+    }
+
+    // Unfinished tasks go last, in creation order
+    const finishOrder = (task: MockTask) => task.finishedAt ? Date.parse(task.finishedAt) : Number.MAX_SAFE_INTEGER;
+    const listed = [...tasks.values()]
+      .filter(task => !query.session_id || task.sessionId === query.session_id)
+      .filter(task => !statuses || statuses.includes(task.status))
+      .filter(task => since === undefined || (task.finishedAt !== null && Date.parse(task.finishedAt) >= since))
+      .sort((a, b) => finishOrder(a) - finishOrder(b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+    return {
+      tasks: listed.map(task => ({ ...taskStatus(task), task_type: task.taskType, finished_at: task.finishedAt })),
+    };
+  }
+
+  function cancelTask(task: MockTask): any {
+    if (task.status !== 'pending' && task.status !== 'running') {
+      throw new HttpError(409, `Task is already ${task.status}`);
+    }
+    task.status = 'cancelled';
+    task.finishedAt = now();
+    return { task_id: task.id, status: task.status };
+  }
+
+  function deleteSession(id: string): any {
+    const session = sessions.get(id);
+    if (!session) throw new HttpError(404, `Session ${id} not found`);
+
+    let cancelled = 0;
+    for (const taskId of session.taskIds) {
+      const task = tasks.get(taskId)!;
+      if (task.status === 'pending' || task.status === 'running') {
+        cancelTask(task);
+        cancelled++;
+      }
+      tasks.delete(taskId);
+    }
+    sessions.delete(id);
+    return { session_id: id, deleted: true, cancelled_tasks: cancelled };
+  }
+
+  function isFinished(status: any): boolean {
+    return status.status === 'failed' || (status.status === 'completed' && status.artifact_id !== null);
+  }
+
+  function notifyWebhooks(payload: any): void {
+    for (const webhook of webhooks.values()) {
+      if (!webhook.events.includes(payload.event)) continue;
+
+      const delivery: WebhookDelivery = { url: webhook.url, body: payload };
+      deliveries.push(delivery);
+      const sent = fetch(webhook.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      }).then(
+        response => { delivery.statusCode = response.status; },
+        error => { delivery.error = error.message; }
+      );
+      pendingDeliveries.add(sent);
+      sent.finally(() => pendingDeliveries.delete(sent));
+    }
+  }
+
+  async function finishTask(id: string): Promise<any> {
+    const task = tasks.get(id);
+    if (!task) throw new Error(`Task ${id} not found`);
+
+    // Enough polls to pass every lifecycle step and the artifact delay
+    let status = pollTask(task);
+    for (let i = 0; i < task.lifecycle.length + task.artifactDelay && !isFinished(status); i++) {
+      status = pollTask(task);
+    }
+    await Promise.all([...pendingDeliveries]);
+    return status;
+  }
+
+  function registerWebhook(body: any): { webhook_id: string } {
+    if (typeof body?.url !== 'string' || !/^https?:\/\//.test(body.url)) {
+      throw new HttpError(422, 'url must be an http(s) URL');
+    }
+    const webhook: MockWebhook = {
+      id: nextId('webhook'),
+      url: body.url,
+      events: Array.isArray(body.events) ? body.events : ['task.completed'],
+    };
+    webhooks.set(webhook.id, webhook);
+    return { webhook_id: webhook.id };
+  }
+
+  /**
+   * Groups of rows for comma-separated artifact IDs. With `offset` or `limit`
+   * each group holds one page of its rows and the paging fields.
+   */
+  function getArtifacts(query: Record<string, string>): any[] {
+    const paged = query.offset !== undefined || query.limit !== undefined;
+    return (query.artifact_ids || '').split(',').filter(Boolean).map(id => {
+      const artifact = artifacts.get(id);
+      if (!artifact) throw new HttpError(404, `Artifact ${id} not found`);
+      const rows = artifact.rows.map((data, i) => ({ id: `${artifact.id}-row-${i}`, data }));
+      if (!paged) {
+        return { id: artifact.id, type: 'group', artifacts: rows };
+      }
+      const { items, paging } = page(rows, query);
+      return { id: artifact.id, type: 'group', artifacts: items, ...paging };
+    });
+  }
+
+  /**
+   * One offset/limit page of `items`, with the paging fields list endpoints return.
+   */
+  function page<T>(items: T[], query: Record<string, string>): { items: T[]; offset: number; paging: { total: number; next_offset: number | null; has_more: boolean } } {
+    const offset = Number(query.offset ?? 0);
+    const limit = Number(query.limit ?? DEFAULT_ROWS_LIMIT);
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new HttpError(422, 'offset must be a non-negative integer');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ROWS_LIMIT) {
+      throw new HttpError(422, `limit must be between 1 and ${MAX_ROWS_LIMIT}`);
+    }
+
+    const slice = items.slice(offset, offset + limit);
+    const nextOffset = offset + slice.length;
+    return {
+      items: slice,
+      offset,
+      paging: {
+        total: items.length,
+        next_offset: nextOffset < items.length ? nextOffset : null,
+        has_more: nextOffset < items.length,
+      },
+    };
+  }
+
+  function sessionInfo(session: MockSession): any {
+    return { session_id: session.id, name: session.name, created_at: session.createdAt, task_count: session.taskIds.length };
+  }
+
+  /**
+   * Sessions, newest first. `name` keeps those whose name contains it (any case).
+   */
+  function listSessions(query: Record<string, string>): any {
+    const search = (query.name || '').toLowerCase();
+    const listed = [...sessions.values()]
+      .filter(session => session.name.toLowerCase().includes(search))
+      .reverse();
+    const { items, paging } = page(listed, query);
+    return { sessions: items.map(sessionInfo), ...paging };
+  }
+
+  function route(method: string, path: string, query: Record<string, string>, body: any): any {
+    let match: RegExpMatchArray | null;
+
+    if (method === 'GET' && path === '/whoami') {
+      return { email: options.email || 'mock@everyrow.io' };
+    }
+    if (method === 'GET' && path === '/models') {
+      return { models: options.models || DEFAULT_MODELS };
+    }
+    if (method === 'POST' && path === '/sessions/create') {
+      const session: MockSession = { id: nextId('session'), name: body?.name || 'Untitled', taskIds: [], createdAt: now() };
+      sessions.set(session.id, session);
+      return { session_id: session.id };
+    }
+    if (method === 'GET' && path === '/sessions') {
+      return listSessions(query);
+    }
+    if (method === 'GET' && (match = path.match(/^\/sessions\/([^/]+)$/))) {
+      const session = sessions.get(match[1]);
+      if (!session) throw new HttpError(404, `Session ${match[1]} not found`);
+      return sessionInfo(session);
+    }
+    if (method === 'DELETE' && (match = path.match(/^\/sessions\/([^/]+)$/))) {
+      return deleteSession(match[1]);
+    }
+    if (method === 'POST' && path === '/tasks') {
+      return createTask(body);
+    }
+    if (method === 'GET' && path === '/tasks') {
+      return listTasks(query);
+    }
+    if (method === 'GET' && (match = path.match(/^\/tasks\/([^/]+)\/status$/))) {
+      return pollTask(requireTask(match[1]));
+    }
+    if (method === 'POST' && (match = path.match(/^\/tasks\/([^/]+)\/cancel$/))) {
+      return cancelTask(requireTask(match[1]));
+    }
+    if (method === 'GET' && path === '/artifacts') {
+      return getArtifacts(query);
+    }
+    if (method === 'GET' && path === '/webhooks') {
+      return { webhooks: [...webhooks.values()].map(w => ({ webhook_id: w.id, url: w.url, events: w.events })) };
+    }
+    if (method === 'POST' && path === '/webhooks') {
+      return registerWebhook(body);
+    }
+    if (method === 'DELETE' && (match = path.match(/^\/webhooks\/([^/]+)$/))) {
+      if (!webhooks.delete(match[1])) throw new HttpError(404, `Webhook ${match[1]} not found`);
+      return { webhook_id: match[1], deleted: true };
+    }
+
+    throw new HttpError(404, `No route for ${method} ${path}`);
+  }
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const method = (req.method || 'GET').toUpperCase();
+      const query = Object.fromEntries(url.searchParams.entries());
+
+      const send = (status: number, payload: any) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+      };
+
+      let body: any;
+      try {
+        body = raw ? JSON.parse(raw) : undefined;
+      } catch {
+        return send(400, { detail: 'Request body is not valid JSON' });
+      }
+      requests.push({ method, path: url.pathname, query, body });
+
+      if (req.headers.authorization !== `Bearer ${apiKey}`) {
+        return send(401, { detail: 'Invalid API key' });
+      }
+
+      const injected = takeInjectedError(method, url.pathname);
+      if (injected) {
+        return send(injected.status, injected.body ?? { detail: `Injected ${injected.status} error` });
+      }
+
+      try {
+        send(200, route(method, url.pathname, query, body));
+      } catch (e: any) {
+        if (e instanceof HttpError) {
+          send(e.status, { detail: e.detail });
+        } else {
+          send(500, { detail: e.message });
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port || 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    apiKey,
+    sessions,
+    tasks,
+    artifacts,
+    webhooks,
+    requests,
+    deliveries,
+    injectError: error => { errors.push({ ...error }); },
+    createArtifact,
+    finishTask,
+    close: () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,748 @@
+/**
+ * App Definition Validator
+ *
+ * Checks every .imljson file under app/ for mistakes Make.com only reports
+ * after a deploy (or never, until a scenario runs): unknown parameter and
+ * interface types, select parameters without options, `{{temp.x}}` used
+ * before any request sets it, interfaces that disagree with
+ * `response.output`, samples that don't match the interface, and calls to
+ * functions that are neither built in nor custom functions in app/functions.
+ *
+ * Template blueprints are checked against the modules they use: every
+ * `app#<app-id>:<module>` must exist in app/modules, mapper keys must be its
+ * parameters (with every required one set), and `{{N.field}}` must name a
+ * field module N outputs.
+ *
+ * Each issue carries the file and the JSON path it was found at, e.g.
+ * `app/modules/startRankTask.imljson: communication[3].body.session_id`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BUILTIN_FUNCTIONS, compileFunction } from './iml';
+import { childPath } from './json-diff';
+import { MODULE_TYPES } from './make-sdk';
+
+export interface ValidationIssue {
+  /** Path relative to the repo root, e.g. "app/modules/startRankTask.imljson" */
+  file: string;
+  path: string;
+  message: string;
+}
+
+export type ComponentKind = 'connection' | 'webhook' | 'module' | 'rpc';
+
+export interface ValidationContext {
+  /** Names of the connection files (without extension) modules may reference */
+  connections: string[];
+  /** Parsed webhook files by name (without extension), for instant triggers */
+  webhooks?: Record<string, any>;
+  /** Names of the custom IML functions in app/functions */
+  functions?: string[];
+}
+
+// Parameter and interface field types Make.com accepts
+export const FIELD_TYPES = [
+  'any', 'array', 'boolean', 'buffer', 'cert', 'collection', 'color', 'date',
+  'email', 'file', 'filename', 'filter', 'folder', 'hidden', 'integer', 'number',
+  'password', 'path', 'pkey', 'port', 'select', 'text', 'time', 'timestamp',
+  'timezone', 'uinteger', 'url', 'uuid',
+];
+
+const CONNECTION_TYPES = ['basic', 'oauth', 'oauth1'];
+
+const WEBHOOK_TYPES = ['web', 'web-shared'];
+
+const TRIGGER_TYPES = ['date', 'id'];
+const TRIGGER_ORDERS = ['asc', 'desc', 'unordered'];
+
+const STRING_TYPES = [
+  'text', 'email', 'url', 'uuid', 'date', 'time', 'timestamp', 'timezone', 'filename',
+  'path', 'color', 'password', 'select', 'buffer', 'cert', 'pkey', 'hidden', 'file', 'folder',
+];
+const NUMBER_TYPES = ['number', 'integer', 'uinteger', 'port'];
+
+const ROOT_DIR = path.join(__dirname, '..', '..');
+
+const CUSTOM_APP_MODULE = /^app#[^:]+:(.+)$/;
+const MODULE_REFERENCE = /(?<![\w.$])(\d+)\.([A-Za-z_$][\w$]*)/g;
+
+const TEMP_REFERENCE = /(?<![\w.$])temp\.([A-Za-z_$][\w$]*)/g;
+
+const FUNCTION_CALL = /(?<![\w.$])([A-Za-z_$][\w$]*)\s*\(/g;
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isFieldType(type: any): boolean {
+  return typeof type === 'string' && (FIELD_TYPES.includes(type) || type.startsWith('account:'));
+}
+
+/**
+ * Collects issues for one file; paths are relative to the file's root.
+ */
+class IssueList {
+  issues: ValidationIssue[] = [];
+
+  constructor(private file: string) {}
+
+  add(path: string, message: string): void {
+    this.issues.push({ file: this.file, path: path || '(root)', message });
+  }
+}
+
+/**
+ * Visit every string (values, and object keys that contain IML) with its path.
+ */
+function walkStrings(value: any, path: string, visit: (text: string, path: string) => void): void {
+  if (typeof value === 'string') {
+    visit(value, path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => walkStrings(item, childPath(path, i), visit));
+  } else if (isObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      if (key.includes('{{')) {
+        visit(key, childPath(path, key));
+      }
+      walkStrings(item, childPath(path, key), visit);
+    }
+  }
+}
+
+/**
+ * Matches of `pattern` inside the `{{...}}` expressions of a string.
+ */
+function expressionMatches(text: string, pattern: RegExp): RegExpMatchArray[] {
+  const matches: RegExpMatchArray[] = [];
+  for (const [, expression] of text.matchAll(/\{\{([\s\S]*?)\}\}/g)) {
+    matches.push(...expression.matchAll(pattern));
+  }
+  return matches;
+}
+
+/**
+ * Check that every function an expression calls exists; string literals are
+ * skipped so text like 'uploading (status' isn't read as a call.
+ */
+function checkFunctionCalls(config: any, functions: string[], issues: IssueList): void {
+  walkStrings(config, '', (text, valuePath) => {
+    for (const [, expression] of text.matchAll(/\{\{([\s\S]*?)\}\}/g)) {
+      const code = expression.replace(/'[^']*'|"[^"]*"/g, "''");
+      for (const [, name] of code.matchAll(FUNCTION_CALL)) {
+        if (!(name in BUILTIN_FUNCTIONS) && !functions.includes(name)) {
+          issues.add(valuePath, `unknown function "${name}" (not built in or in app/functions)`);
+        }
+      }
+    }
+  });
+}
+
+function checkFields(fields: any, path: string, issues: IssueList, kind: 'parameter' | 'interface'): void {
+  if (!Array.isArray(fields)) {
+    issues.add(path, `${kind === 'parameter' ? 'parameters' : 'interface'} must be an array`);
+    return;
+  }
+  const seen = new Set<string>();
+  fields.forEach((field, i) => {
+    const fieldPath = childPath(path, i);
+    if (kind === 'interface' && isComputedField(field)) {
+      return;
+    }
+    checkField(field, fieldPath, issues, kind, true);
+    if (isObject(field) && typeof field.name === 'string') {
+      if (seen.has(field.name)) {
+        issues.add(childPath(fieldPath, 'name'), `duplicate ${kind} name "${field.name}"`);
+      }
+      seen.add(field.name);
+    }
+  });
+}
+
+/**
+ * An interface entry computed from the parameters: one IML expression that
+ * returns a list of fields, e.g. `{{schemaInterface(parameters.responseFields)}}`,
+ * or an RPC whose bundles are the fields, e.g. `rpc://getResultsInterface`.
+ */
+function isComputedField(field: any): boolean {
+  return typeof field === 'string' && (/^\{\{[\s\S]*\}\}$/.test(field.trim()) || /^rpc:\/\/\w+$/.test(field));
+}
+
+function checkField(field: any, path: string, issues: IssueList, kind: 'parameter' | 'interface', requireName: boolean): void {
+  if (!isObject(field)) {
+    issues.add(path, `${kind} must be an object`);
+    return;
+  }
+  if (requireName && (typeof field.name !== 'string' || field.name === '')) {
+    issues.add(childPath(path, 'name'), `${kind} has no name`);
+  }
+  if (!isFieldType(field.type)) {
+    issues.add(childPath(path, 'type'), `unknown ${kind} type ${JSON.stringify(field.type)} (allowed: ${FIELD_TYPES.join(', ')})`);
+  }
+
+  if (field.type === 'select' && kind === 'parameter') {
+    checkOptions(field.options, childPath(path, 'options'), issues);
+  }
+
+  if (field.spec !== undefined) {
+    const specPath = childPath(path, 'spec');
+    if (field.type === 'collection' || Array.isArray(field.spec)) {
+      checkFields(field.spec, specPath, issues, kind);
+    } else if (field.type === 'array') {
+      // A single field describing each array item; it doesn't need a name
+      checkField(field.spec, specPath, issues, kind, false);
+    }
+  }
+}
+
+function checkOptions(options: any, path: string, issues: IssueList): void {
+  // Options may also be loaded from an RPC: "rpc://getModels" or { store: "rpc://getModels" }
+  if (typeof options === 'string' || (isObject(options) && typeof options.store === 'string')) {
+    return;
+  }
+  const list = isObject(options) ? options.store : options;
+  if (!Array.isArray(list) || list.length === 0) {
+    issues.add(path, 'select parameter has no options');
+    return;
+  }
+  list.forEach((option, i) => {
+    const optionPath = childPath(path, i);
+    if (!isObject(option) || option.value === undefined) {
+      issues.add(optionPath, 'option must be an object with a value');
+    } else if (Array.isArray(option.nested)) {
+      checkFields(option.nested, childPath(optionPath, 'nested'), issues, 'parameter');
+    }
+  });
+}
+
+/**
+ * Check that every `{{temp.x}}` is set by the `response.temp` of an earlier
+ * request. A response's own output/iterate/error and the request's `repeat`
+ * may read its temp, since Make.com evaluates `temp` first.
+ */
+function checkTempReferences(communication: any, issues: IssueList, key: string): void {
+  const steps: any[] = Array.isArray(communication) ? communication : [communication];
+  const defined = new Set<string>();
+
+  steps.forEach((step, i) => {
+    if (!isObject(step)) return;
+    const stepPath = Array.isArray(communication) ? childPath(key, i) : key;
+    const ownTemp = isObject(step.response?.temp) ? Object.keys(step.response.temp) : [];
+
+    const check = (value: any, valuePath: string, available: Set<string>) => {
+      walkStrings(value, valuePath, (text, textPath) => {
+        for (const [, name] of expressionMatches(text, TEMP_REFERENCE)) {
+          if (!available.has(name)) {
+            issues.add(textPath, `temp.${name} is not defined by an earlier request`);
+          }
+        }
+      });
+    };
+
+    const withOwn = new Set([...defined, ...ownTemp]);
+    for (const [key, value] of Object.entries(step)) {
+      if (key !== 'response') {
+        check(value, childPath(stepPath, key), key === 'repeat' ? withOwn : defined);
+      }
+    }
+    if (isObject(step.response)) {
+      for (const [key, value] of Object.entries(step.response)) {
+        const responsePath = childPath(childPath(stepPath, 'response'), key);
+        check(value, responsePath, key === 'temp' ? defined : withOwn);
+      }
+    }
+
+    ownTemp.forEach(name => defined.add(name));
+  });
+}
+
+/**
+ * Static output objects across all requests, with their paths. Returns null
+ * when the output is computed (e.g. `"{{item.data}}"`), so its keys are unknown.
+ */
+function staticOutputKeys(communication: any): Map<string, string> | null {
+  const steps: any[] = Array.isArray(communication) ? communication : [communication];
+  const keys = new Map<string, string>();
+  let found = false;
+  let computed = false;
+
+  steps.forEach((step, i) => {
+    const output = isObject(step) ? step.response?.output : undefined;
+    if (output === undefined) return;
+    const outputPath = Array.isArray(communication)
+      ? `communication[${i}].response.output`
+      : 'communication.response.output';
+    if (!isObject(output)) {
+      computed = true;
+      return;
+    }
+    found = true;
+    for (const key of Object.keys(output)) {
+      if (!key.includes('{{')) {
+        keys.set(key, childPath(outputPath, key));
+      }
+    }
+  });
+
+  return found && !computed ? keys : null;
+}
+
+/**
+ * Keys of a webhook's static `communication.output`, all reported at the
+ * module's `webhook` reference; null when the output is computed.
+ */
+function webhookOutputKeys(webhook: any): Map<string, string> | null {
+  const output = isObject(webhook) ? webhook.communication?.output : undefined;
+  if (!isObject(output)) return null;
+  return new Map(Object.keys(output).filter(key => !key.includes('{{')).map(key => [key, 'webhook']));
+}
+
+function checkInterfaceMatchesOutput(
+  module: any,
+  issues: IssueList,
+  outputKeys: Map<string, string> | null = staticOutputKeys(module.communication)
+): Map<string, string> | null {
+  if (!outputKeys || !Array.isArray(module.interface)) {
+    return outputKeys;
+  }
+
+  const names = module.interface.filter(isObject).map((field: any) => field.name);
+  module.interface.forEach((field: any, i: number) => {
+    if (isObject(field) && typeof field.name === 'string' && !outputKeys.has(field.name)) {
+      issues.add(`interface[${i}].name`, `interface field "${field.name}" is not in ${module.webhook ? 'the webhook output' : 'response.output'}`);
+    }
+  });
+  for (const [key, keyPath] of outputKeys) {
+    if (!names.includes(key)) {
+      issues.add(keyPath, `output "${key}" is not declared in interface`);
+    }
+  }
+  return outputKeys;
+}
+
+/**
+ * Check a sample value against an interface field (or parameter) definition.
+ */
+function checkSampleValue(value: any, field: any, path: string, issues: IssueList): void {
+  if (value === null || value === undefined || !isObject(field)) return;
+  const type = field.type;
+  const describe = Array.isArray(value) ? 'array' : typeof value;
+
+  if (STRING_TYPES.includes(type)) {
+    if (typeof value !== 'string') {
+      issues.add(path, `sample is ${describe} but interface type is ${type}`);
+    }
+  } else if (NUMBER_TYPES.includes(type)) {
+    if (typeof value !== 'number' || (type !== 'number' && !Number.isInteger(value))) {
+      issues.add(path, `sample is ${describe} but interface type is ${type}`);
+    }
+  } else if (type === 'boolean') {
+    if (typeof value !== 'boolean') {
+      issues.add(path, `sample is ${describe} but interface type is boolean`);
+    }
+  } else if (type === 'array') {
+    if (!Array.isArray(value)) {
+      issues.add(path, `sample is ${describe} but interface type is array`);
+    } else if (Array.isArray(field.spec) && field.spec.length > 0) {
+      value.forEach((item, i) => checkSampleObject(item, field.spec, childPath(path, i), issues));
+    } else if (isObject(field.spec)) {
+      value.forEach((item, i) => checkSampleValue(item, field.spec, childPath(path, i), issues));
+    }
+  } else if (type === 'collection') {
+    if (!isObject(value)) {
+      issues.add(path, `sample is ${describe} but interface type is collection`);
+    } else if (Array.isArray(field.spec) && field.spec.length > 0) {
+      checkSampleObject(value, field.spec, path, issues);
+    }
+  }
+}
+
+function checkSampleObject(sample: any, fields: any[], path: string, issues: IssueList, allowUnknown: boolean = false): void {
+  if (!isObject(sample)) {
+    issues.add(path, `sample must be an object, got ${Array.isArray(sample) ? 'array' : typeof sample}`);
+    return;
+  }
+  const byName = new Map(fields.filter(isObject).map(field => [field.name, field]));
+  for (const [key, value] of Object.entries(sample)) {
+    const field = byName.get(key);
+    if (field) {
+      checkSampleValue(value, field, childPath(path, key), issues);
+    } else if (!allowUnknown) {
+      issues.add(childPath(path, key), `sample field "${key}" is not in interface`);
+    }
+  }
+}
+
+function checkConnectionReference(config: any, context: ValidationContext, issues: IssueList): void {
+  if (config.connection !== undefined && !context.connections.includes(config.connection)) {
+    issues.add('connection', `unknown connection "${config.connection}" (expected one of: ${context.connections.join(', ')})`);
+  }
+}
+
+function requireKeys(config: any, keys: string[], issues: IssueList): void {
+  for (const key of keys) {
+    if (config[key] === undefined || config[key] === '') {
+      issues.add(key, `missing required "${key}"`);
+    }
+  }
+}
+
+function checkCommunication(communication: any, issues: IssueList, key: string = 'communication'): void {
+  if (Array.isArray(communication) ? communication.length === 0 : !isObject(communication)) {
+    issues.add(key, `${key} must be a request object or a non-empty array of requests`);
+    return;
+  }
+  const steps: any[] = Array.isArray(communication) ? communication : [communication];
+  steps.forEach((step, i) => {
+    const stepPath = Array.isArray(communication) ? childPath(key, i) : key;
+    if (!isObject(step) || typeof step.url !== 'string') {
+      issues.add(stepPath, 'request has no url');
+    } else if (step.repeat !== undefined && (!isObject(step.repeat) || step.repeat.condition === undefined || step.repeat.limit === undefined)) {
+      // Without a limit a condition that never turns false polls forever
+      issues.add(childPath(stepPath, 'repeat'), 'repeat needs a condition and a limit');
+    } else if (step.response?.valid === false && step.condition === undefined) {
+      // Make.com raises errors only from a response, so a parameter check is a
+      // request that always fails, e.g. the Start modules' GET /whoami when the
+      // input is missing. Its condition keeps that extra call off runs that pass.
+      issues.add(stepPath, 'request that always fails (response.valid false) needs a condition');
+    }
+  });
+  checkTempReferences(communication, issues, key);
+}
+
+/**
+ * A webhook's `communication` maps incoming requests to bundles, so unlike
+ * other components it sends nothing; `attach` and `detach` are requests.
+ */
+function checkWebhook(config: any, issues: IssueList): void {
+  if (config.communication !== undefined && !isObject(config.communication)) {
+    issues.add('communication', 'webhook communication must be an object');
+  } else if (isObject(config.communication) && config.communication.url !== undefined) {
+    issues.add('communication.url', 'webhook communication processes incoming requests and cannot send one');
+  }
+  for (const hook of ['attach', 'detach']) {
+    if (config[hook] !== undefined) {
+      checkCommunication(config[hook], issues, hook);
+    }
+  }
+  // Without detach every scenario activation leaves a hook registered in the engine
+  if ((config.attach === undefined) !== (config.detach === undefined)) {
+    issues.add(config.attach === undefined ? 'attach' : 'detach', 'attach and detach must be defined together');
+  }
+}
+
+/**
+ * A polling trigger needs `response.trigger` so Make.com can remember the
+ * newest item between runs; without it every run emits every item again.
+ */
+function checkTrigger(config: any, issues: IssueList): void {
+  const steps: any[] = Array.isArray(config.communication) ? config.communication : [config.communication];
+  const index = steps.findIndex(step => isObject(step) && step.response?.trigger !== undefined);
+  if (index === -1) {
+    issues.add('communication', 'polling trigger has no response.trigger');
+    return;
+  }
+
+  const triggerPath = `${Array.isArray(config.communication) ? `communication[${index}]` : 'communication'}.response.trigger`;
+  const trigger = steps[index].response.trigger;
+  if (!isObject(trigger)) {
+    issues.add(triggerPath, 'trigger must be an object');
+    return;
+  }
+  if (!TRIGGER_TYPES.includes(trigger.type)) {
+    issues.add(childPath(triggerPath, 'type'), `unknown trigger type ${JSON.stringify(trigger.type)} (allowed: ${TRIGGER_TYPES.join(', ')})`);
+  }
+  if (!TRIGGER_ORDERS.includes(trigger.order)) {
+    issues.add(childPath(triggerPath, 'order'), `unknown trigger order ${JSON.stringify(trigger.order)} (allowed: ${TRIGGER_ORDERS.join(', ')})`);
+  }
+  if (trigger.id === undefined) {
+    issues.add(childPath(triggerPath, 'id'), 'trigger has no id');
+  }
+  if (trigger.type === 'date' && trigger.date === undefined) {
+    issues.add(childPath(triggerPath, 'date'), 'date trigger has no date');
+  }
+  if (config.epoch !== undefined) {
+    checkCommunication(config.epoch, issues, 'epoch');
+  }
+}
+
+function checkWebhookReference(config: any, context: ValidationContext, issues: IssueList): void {
+  const webhooks = Object.keys(context.webhooks || {});
+  if (config.type === 'instant_trigger' && config.webhook === undefined) {
+    issues.add('webhook', 'instant trigger has no webhook');
+  } else if (config.webhook !== undefined && !webhooks.includes(config.webhook)) {
+    issues.add('webhook', `unknown webhook "${config.webhook}" (expected one of: ${webhooks.join(', ') || 'none'})`);
+  }
+}
+
+/**
+ * Validate one parsed component. `file` is only used to label issues.
+ */
+export function validateComponent(
+  kind: ComponentKind,
+  file: string,
+  config: any,
+  context: ValidationContext
+): ValidationIssue[] {
+  const issues = new IssueList(file);
+  if (!isObject(config)) {
+    issues.add('', `${kind} must be a JSON object`);
+    return issues.issues;
+  }
+
+  switch (kind) {
+    case 'connection':
+      requireKeys(config, ['label', 'type', 'communication'], issues);
+      if (config.type !== undefined && !CONNECTION_TYPES.includes(config.type)) {
+        issues.add('type', `unknown connection type ${JSON.stringify(config.type)} (allowed: ${CONNECTION_TYPES.join(', ')})`);
+      }
+      break;
+
+    case 'webhook':
+      requireKeys(config, ['label', 'type', 'communication'], issues);
+      if (config.type !== undefined && !WEBHOOK_TYPES.includes(config.type)) {
+        issues.add('type', `unknown webhook type ${JSON.stringify(config.type)} (allowed: ${WEBHOOK_TYPES.join(', ')})`);
+      }
+      checkConnectionReference(config, context, issues);
+      checkWebhook(config, issues);
+      break;
+
+    case 'module':
+      // Instant triggers receive their bundles from the webhook instead of sending requests
+      requireKeys(config, config.type === 'instant_trigger' ? ['label', 'type', 'connection'] : ['label', 'type', 'connection', 'communication'], issues);
+      if (config.type !== undefined && !MODULE_TYPES.includes(config.type)) {
+        issues.add('type', `unknown module type ${JSON.stringify(config.type)} (allowed: ${MODULE_TYPES.join(', ')})`);
+      }
+      checkConnectionReference(config, context, issues);
+      checkWebhookReference(config, context, issues);
+      if (config.type === 'trigger' && config.communication !== undefined) {
+        checkTrigger(config, issues);
+      }
+      break;
+
+    case 'rpc':
+      requireKeys(config, ['label', 'communication'], issues);
+      checkConnectionReference(config, context, issues);
+      break;
+  }
+
+  if (config.parameters !== undefined) {
+    checkFields(config.parameters, 'parameters', issues, 'parameter');
+  }
+  if (config.communication !== undefined && kind !== 'webhook') {
+    checkCommunication(config.communication, issues);
+  }
+
+  if (context.functions !== undefined) {
+    checkFunctionCalls(config, context.functions, issues);
+  }
+
+  if (kind === 'module') {
+    if (config.interface !== undefined) {
+      checkFields(config.interface, 'interface', issues, 'interface');
+    }
+    const outputKeys = config.webhook !== undefined
+      ? checkInterfaceMatchesOutput(config, issues, webhookOutputKeys(context.webhooks?.[config.webhook]))
+      : checkInterfaceMatchesOutput(config, issues);
+    if (config.samples !== undefined && Array.isArray(config.interface)) {
+      // With computed output the bundle can hold fields the interface doesn't list
+      checkSampleObject(config.samples, config.interface, 'samples', issues, outputKeys === null);
+    }
+  }
+
+  return issues.issues;
+}
+
+/**
+ * Fields a module's bundles expose to later modules, or null when its output
+ * is computed and can hold anything.
+ */
+function moduleOutputFields(module: any): string[] | null {
+  const outputKeys = staticOutputKeys(module.communication);
+  if (!outputKeys) return null;
+  if (Array.isArray(module.interface)) {
+    if (module.interface.some(isComputedField)) return null;
+    return module.interface.filter(isObject).map((field: any) => field.name);
+  }
+  return [...outputKeys.keys()];
+}
+
+function parameterNames(parameters: any): string[] {
+  if (!Array.isArray(parameters)) return [];
+  return parameters.filter(isObject).flatMap(param => [
+    param.name,
+    // Parameters nested under a select option can be mapped too
+    ...(Array.isArray(param.options) ? param.options.flatMap((o: any) => parameterNames(o?.nested)) : []),
+  ]);
+}
+
+function checkMapper(name: string, module: any, mapper: any, path: string, issues: IssueList): void {
+  const names = parameterNames(module.parameters);
+  const mapped = isObject(mapper) ? mapper : {};
+
+  for (const key of Object.keys(mapped)) {
+    if (!names.includes(key)) {
+      issues.add(childPath(path, key), `"${key}" is not a parameter of ${name} (parameters: ${names.join(', ')})`);
+    }
+  }
+  for (const param of (module.parameters || []).filter(isObject)) {
+    const value = mapped[param.name];
+    if (param.required && param.default === undefined && (value === undefined || value === null || value === '')) {
+      issues.add(path, `missing required parameter "${param.name}" of ${name}`);
+    }
+  }
+}
+
+function checkFlow(
+  flow: any[],
+  path: string,
+  modules: Record<string, any>,
+  outputs: Map<number, string[] | null>,
+  issues: IssueList
+): void {
+  flow.forEach((step, i) => {
+    if (!isObject(step)) return;
+    const stepPath = childPath(path, i);
+    const mapperPath = childPath(stepPath, 'mapper');
+
+    // Only modules that ran earlier in this route can be referenced
+    walkStrings(step.mapper, mapperPath, (text, textPath) => {
+      for (const [, id, field] of expressionMatches(text, MODULE_REFERENCE)) {
+        const fields = outputs.get(Number(id));
+        if (!outputs.has(Number(id))) {
+          issues.add(textPath, `{{${id}.${field}}} refers to module ${id}, which doesn't run before module ${step.id}`);
+        } else if (fields && !fields.includes(field)) {
+          issues.add(textPath, `module ${id} doesn't output "${field}" (outputs: ${fields.join(', ')})`);
+        }
+      }
+    });
+
+    const match = typeof step.module === 'string' ? step.module.match(CUSTOM_APP_MODULE) : null;
+    if (match) {
+      const module = modules[match[1]];
+      if (module) {
+        checkMapper(match[1], module, step.mapper, mapperPath, issues);
+      } else {
+        issues.add(childPath(stepPath, 'module'), `module "${match[1]}" does not exist in app/modules`);
+      }
+      outputs.set(step.id, module ? moduleOutputFields(module) : null);
+    } else if (step.module === 'util:SetVariables' && Array.isArray(step.mapper?.variables)) {
+      outputs.set(step.id, step.mapper.variables.map((v: any) => v?.name));
+    } else {
+      // Built-in modules (HTTP, sleep, ...) aren't described locally
+      outputs.set(step.id, null);
+    }
+
+    if (Array.isArray(step.routes)) {
+      step.routes.forEach((route: any, r: number) => {
+        if (Array.isArray(route?.flow)) {
+          const routePath = childPath(childPath(childPath(stepPath, 'routes'), r), 'flow');
+          checkFlow(route.flow, routePath, modules, new Map(outputs), issues);
+        }
+      });
+    }
+  });
+}
+
+/**
+ * Validate a scenario blueprint against the app's modules (keyed by module
+ * name, e.g. "startRankTask").
+ */
+export function validateBlueprint(file: string, blueprint: any, modules: Record<string, any>): ValidationIssue[] {
+  const issues = new IssueList(file);
+  if (!isObject(blueprint) || !Array.isArray(blueprint.flow)) {
+    issues.add('flow', 'blueprint has no flow array');
+    return issues.issues;
+  }
+  checkFlow(blueprint.flow, 'flow', modules, new Map(), issues);
+  return issues.issues;
+}
+
+function readFiles(rootDir: string, dir: string, extension: string): Array<[string, string]> {
+  const fullPath = path.join(rootDir, dir);
+  if (!fs.existsSync(fullPath)) return [];
+  return fs.readdirSync(fullPath)
+    .filter(f => f.endsWith(extension))
+    .sort()
+    .map(f => [path.join(dir, f), fs.readFileSync(path.join(fullPath, f), 'utf-8')]);
+}
+
+function parseFiles(files: Array<[string, string]>, issues: ValidationIssue[]): Array<[string, any]> {
+  const parsed: Array<[string, any]> = [];
+  for (const [file, content] of files) {
+    try {
+      parsed.push([file, JSON.parse(content)]);
+    } catch (e: any) {
+      issues.push({ file, path: '(root)', message: `invalid JSON: ${e.message}` });
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Validate every connection, webhook, module and RPC under app/ (and that base and
+ * common parse and the custom functions compile).
+ */
+export function validateApp(rootDir: string = ROOT_DIR): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  parseFiles(
+    ['app/base.imljson', 'app/common.imljson']
+      .filter(file => fs.existsSync(path.join(rootDir, file)))
+      .map(file => [file, fs.readFileSync(path.join(rootDir, file), 'utf-8')]),
+    issues
+  );
+
+  const functions: string[] = [];
+  for (const [file, code] of readFiles(rootDir, 'app/functions', '.js')) {
+    const name = path.basename(file, '.js');
+    try {
+      compileFunction(name, code);
+      functions.push(name);
+    } catch (e: any) {
+      issues.push({ file, path: '(root)', message: `invalid function: ${e.message}` });
+    }
+  }
+
+  const connections = parseFiles(readFiles(rootDir, 'app/connections', '.imljson'), issues);
+  const webhooks = parseFiles(readFiles(rootDir, 'app/webhooks', '.imljson'), issues);
+  const context: ValidationContext = {
+    connections: connections.map(([file]) => path.basename(file, '.imljson')),
+    webhooks: Object.fromEntries(webhooks.map(([file, config]) => [path.basename(file, '.imljson'), config])),
+    functions,
+  };
+
+  const kinds: Array<[ComponentKind, Array<[string, any]>]> = [
+    ['connection', connections],
+    ['webhook', webhooks],
+    ['module', parseFiles(readFiles(rootDir, 'app/modules', '.imljson'), issues)],
+    ['rpc', parseFiles(readFiles(rootDir, 'app/rpcs', '.imljson'), issues)],
+  ];
+  for (const [kind, files] of kinds) {
+    for (const [file, config] of files) {
+      issues.push(...validateComponent(kind, file, config, context));
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate every blueprint under templates/ against app/modules.
+ */
+export function validateTemplates(rootDir: string = ROOT_DIR): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const modules: Record<string, any> = {};
+  for (const [file, config] of parseFiles(readFiles(rootDir, 'app/modules', '.imljson'), [])) {
+    modules[path.basename(file, '.imljson')] = config;
+  }
+
+  for (const [file, blueprint] of parseFiles(readFiles(rootDir, 'templates', '.json'), issues)) {
+    issues.push(...validateBlueprint(file, blueprint, modules));
+  }
+  return issues;
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  return `${issue.file}: ${issue.path}: ${issue.message}`;
+}
@@ -0,0 +1,41 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Run the Mock EveryRow Engine
+ *
+ * Starts a local stand-in for the EveryRow API so modules and scripts can be
+ * exercised without network access.
+ *
+ * Usage:
+ *   npx ts-node scripts/mock-engine.ts
+ *
+ * Environment variables:
+ *   MOCK_ENGINE_PORT    - Port to listen on (default: 8787)
+ *   MOCK_ENGINE_API_KEY - API key to accept (default: sk-mock)
+ *
+ * Then point the test script at it:
+ *   EVERYROW_BASE_URL=http://127.0.0.1:8787 EVERYROW_API_KEY=sk-mock npx ts-node scripts/test-module.ts
+ */
+
+import { startMockEngine } from './lib/mock-engine';
+
+async function main() {
+  const engine = await startMockEngine({
+    port: Number(process.env.MOCK_ENGINE_PORT || 8787),
+    apiKey: process.env.MOCK_ENGINE_API_KEY,
+  });
+
+  console.log('=== Mock EveryRow Engine ===');
+  console.log(`Listening on ${engine.url}`);
+  console.log(`API key: ${engine.apiKey}`);
+  console.log('Press Ctrl+C to stop');
+
+  process.on('SIGINT', async () => {
+    await engine.close();
+    process.exit(0);
+  });
+}
+
+main().catch(err => {
+  console.error('Mock engine failed:', err);
+  process.exit(1);
+});
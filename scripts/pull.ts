@@ -0,0 +1,295 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Make.com Custom App Pull Script
+ *
+ * Reads the live app from the Make.com SDK API and writes it back into the
+ * app/ layout the deploy script expects, so hotfixes made in the Make.com UI
+ * can be reconciled with the repo.
+ *
+ * Usage:
+ *   MAKE_API_KEY=xxx MAKE_APP_ID=xxx npx ts-node scripts/pull.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run - Print what would change in app/ without writing files
+ *
+ * Environment variables:
+ *   MAKE_API_KEY     - Your Make.com API key (from Settings > API)
+ *   MAKE_APP_ID      - The app ID (name) in Make.com
+ *   MAKE_APP_VERSION - App version (default: 1)
+ *   MAKE_BASE_URL    - Make.com API base URL (default: https://us1.make.com/api)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { diffJson, formatChange } from './lib/json-diff';
+import {
+  CONNECTION_SECTIONS,
+  RPC_SECTIONS,
+  WEBHOOK_SECTIONS,
+  createSdkClient,
+  getModuleSections,
+  getModuleType,
+} from './lib/make-sdk';
+
+const MAKE_API_KEY = process.env.MAKE_API_KEY;
+const MAKE_APP_ID = process.env.MAKE_APP_ID;
+const MAKE_APP_VERSION = process.env.MAKE_APP_VERSION || '1';
+const MAKE_BASE_URL = process.env.MAKE_BASE_URL || 'https://us1.make.com/api';
+const DRY_RUN = process.argv.includes('--dry-run');
+
+if (!MAKE_API_KEY) {
+  console.error('Error: MAKE_API_KEY environment variable is required');
+  console.error('Get your API key from Make.com > Settings > API');
+  process.exit(1);
+}
+
+if (!MAKE_APP_ID) {
+  console.error('Error: MAKE_APP_ID environment variable is required');
+  console.error('This is the app name/ID you created in Make.com');
+  process.exit(1);
+}
+
+const APP_DIR = path.join(__dirname, '..', 'app');
+const { makeRequest, fetchRemoteComponent } = createSdkClient(MAKE_BASE_URL, MAKE_API_KEY);
+
+type FileStatus = 'created' | 'updated' | 'unchanged';
+
+interface PullResult {
+  file: string;
+  status: FileStatus;
+}
+
+function readJsonFile(filePath: string): any {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  return JSON.parse(content);
+}
+
+function readLocalDir(dir: string): Map<string, any> {
+  const fullPath = path.join(APP_DIR, dir);
+  const files = new Map<string, any>();
+  if (fs.existsSync(fullPath)) {
+    for (const file of fs.readdirSync(fullPath).filter(f => f.endsWith('.imljson'))) {
+      files.set(file, readJsonFile(path.join(fullPath, file)));
+    }
+  }
+  return files;
+}
+
+/**
+ * Write a component file, keeping the local key order and leaving files that
+ * are already equivalent untouched (so formatting isn't churned).
+ */
+function writeComponentFile(relativePath: string, pulled: any): PullResult {
+  const filePath = path.join(APP_DIR, relativePath);
+  const local = fs.existsSync(filePath) ? readJsonFile(filePath) : undefined;
+  const merged = local && typeof local === 'object' && !Array.isArray(local)
+    ? { ...local, ...pulled }
+    : pulled;
+
+  if (local === undefined) {
+    console.log(`  + ${relativePath}`);
+  } else {
+    const changes = diffJson(local, merged);
+    if (changes.length === 0) {
+      return { file: relativePath, status: 'unchanged' };
+    }
+    console.log(`  ~ ${relativePath}`);
+    for (const change of changes) {
+      console.log(`      ${formatChange(change)}`);
+    }
+  }
+
+  if (!DRY_RUN) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(merged, null, 4) + '\n');
+  }
+  return { file: relativePath, status: local === undefined ? 'created' : 'updated' };
+}
+
+/**
+ * Write a custom function's code, leaving identical files untouched.
+ */
+function writeFunctionFile(relativePath: string, code: string): PullResult {
+  const filePath = path.join(APP_DIR, relativePath);
+  const local = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : undefined;
+
+  if (local === code) {
+    return { file: relativePath, status: 'unchanged' };
+  }
+  console.log(`  ${local === undefined ? '+' : '~'} ${relativePath}`);
+
+  if (!DRY_RUN) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, code);
+  }
+  return { file: relativePath, status: local === undefined ? 'created' : 'updated' };
+}
+
+async function pullSections(endpointBase: string, sections: Array<[string, string]>): Promise<Record<string, any>> {
+  const config: Record<string, any> = {};
+  for (const [key, section] of sections) {
+    const content = await fetchRemoteComponent(`${endpointBase}/${section}`);
+    if (content !== undefined) {
+      config[key] = content;
+    }
+  }
+  return config;
+}
+
+/**
+ * Pull connections and return a map of Make.com connection name -> the local
+ * reference modules use (the connection's file name, e.g. "everyrow-api").
+ */
+async function pullConnections(results: PullResult[]): Promise<Map<string, string>> {
+  const localFiles = readLocalDir('connections');
+  const references = new Map<string, string>();
+  const response = await makeRequest('GET', `/${MAKE_APP_ID}/connections`);
+
+  for (const conn of response.appConnections || []) {
+    // Match by label so the remote name (e.g. "everyrow5") maps to our file
+    const localFile = [...localFiles].find(([, config]) => config.label === conn.label)?.[0]
+      || `${conn.name}.imljson`;
+    references.set(conn.name, localFile.replace('.imljson', ''));
+
+    const sections = await pullSections(`/connections/${conn.name}`, CONNECTION_SECTIONS);
+    results.push(writeComponentFile(path.join('connections', localFile), {
+      label: conn.label,
+      type: conn.type || 'basic',
+      ...sections,
+    }));
+  }
+
+  return references;
+}
+
+/**
+ * Pull webhooks, matched to local files by label like connections, and return
+ * a map of Make.com webhook name -> the local reference instant triggers use.
+ */
+async function pullWebhooks(connectionRefs: Map<string, string>, results: PullResult[]): Promise<Map<string, string>> {
+  const localFiles = readLocalDir('webhooks');
+  const references = new Map<string, string>();
+  const response = await makeRequest('GET', `/${MAKE_APP_ID}/webhooks`);
+
+  for (const hook of response.appWebhooks || []) {
+    const localFile = [...localFiles].find(([, config]) => config.label === hook.label)?.[0]
+      || `${hook.name}.imljson`;
+    references.set(hook.name, localFile.replace('.imljson', ''));
+
+    const sections = await pullSections(`/webhooks/${hook.name}`, WEBHOOK_SECTIONS);
+    results.push(writeComponentFile(path.join('webhooks', localFile), {
+      label: hook.label,
+      type: hook.type || 'web',
+      ...(hook.connection ? { connection: connectionRefs.get(hook.connection) || hook.connection } : {}),
+      ...sections,
+    }));
+  }
+
+  return references;
+}
+
+async function pullFunctions(results: PullResult[]): Promise<void> {
+  const response = await makeRequest('GET', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/functions`);
+
+  for (const fn of response.appFunctions || []) {
+    const code = await fetchRemoteComponent(`/${MAKE_APP_ID}/${MAKE_APP_VERSION}/functions/${fn.name}/code`);
+    if (typeof code === 'string') {
+      results.push(writeFunctionFile(path.join('functions', `${fn.name}.js`), code));
+    }
+  }
+}
+
+async function pullModules(
+  connectionRefs: Map<string, string>,
+  webhookRefs: Map<string, string>,
+  results: PullResult[]
+): Promise<void> {
+  const response = await makeRequest('GET', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/modules`);
+
+  for (const mod of response.appModules || []) {
+    const type = getModuleType(mod.typeId);
+    const sections = await pullSections(`/${MAKE_APP_ID}/${MAKE_APP_VERSION}/modules/${mod.name}`, getModuleSections(type));
+    results.push(writeComponentFile(path.join('modules', `${mod.name}.imljson`), {
+      label: mod.label,
+      description: mod.description || '',
+      type,
+      ...(mod.connection ? { connection: connectionRefs.get(mod.connection) || mod.connection } : {}),
+      ...(mod.webhook ? { webhook: webhookRefs.get(mod.webhook) || mod.webhook } : {}),
+      ...sections,
+    }));
+  }
+}
+
+async function pullRpcs(connectionRefs: Map<string, string>, results: PullResult[]): Promise<void> {
+  const response = await makeRequest('GET', `/${MAKE_APP_ID}/${MAKE_APP_VERSION}/rpcs`);
+
+  for (const rpc of response.appRpcs || []) {
+    const sections = await pullSections(`/${MAKE_APP_ID}/${MAKE_APP_VERSION}/rpcs/${rpc.name}`, RPC_SECTIONS);
+    results.push(writeComponentFile(path.join('rpcs', `${rpc.name}.imljson`), {
+      label: rpc.label,
+      ...(rpc.connection ? { connection: connectionRefs.get(rpc.connection) || rpc.connection } : {}),
+      ...sections,
+    }));
+  }
+}
+
+async function main() {
+  console.log('=== Make.com Custom App Pull ===');
+  console.log(`App: ${MAKE_APP_ID} v${MAKE_APP_VERSION}`);
+  console.log(`API: ${MAKE_BASE_URL}`);
+  if (DRY_RUN) {
+    console.log('Dry run: no files will be written');
+  }
+  console.log('');
+
+  const results: PullResult[] = [];
+
+  console.log('Pulling base and common...');
+  for (const name of ['base', 'common']) {
+    const content = await fetchRemoteComponent(`/${MAKE_APP_ID}/${MAKE_APP_VERSION}/${name}`);
+    if (content !== undefined) {
+      results.push(writeComponentFile(`${name}.imljson`, content));
+    }
+  }
+
+  console.log('Pulling functions...');
+  await pullFunctions(results);
+
+  console.log('Pulling connections...');
+  const connectionRefs = await pullConnections(results);
+
+  console.log('Pulling webhooks...');
+  const webhookRefs = await pullWebhooks(connectionRefs, results);
+
+  console.log('Pulling modules...');
+  await pullModules(connectionRefs, webhookRefs, results);
+
+  console.log('Pulling RPCs...');
+  await pullRpcs(connectionRefs, results);
+
+  // Files that exist locally but not in Make.com are reported, never deleted
+  const pulled = new Set(results.map(r => r.file));
+  const localFunctions = fs.existsSync(path.join(APP_DIR, 'functions'))
+    ? fs.readdirSync(path.join(APP_DIR, 'functions')).filter(f => f.endsWith('.js')).map(f => path.join('functions', f))
+    : [];
+  const localOnly = ['connections', 'webhooks', 'modules', 'rpcs'].flatMap(dir =>
+    [...readLocalDir(dir).keys()].map(file => path.join(dir, file))
+  ).concat(localFunctions).filter(file => !pulled.has(file));
+
+  // Summary
+  console.log('');
+  console.log('=== Pull Summary ===');
+  const count = (status: FileStatus) => results.filter(r => r.status === status).length;
+  console.log(`Created: ${count('created')}, updated: ${count('updated')}, unchanged: ${count('unchanged')}`);
+  if (localOnly.length > 0) {
+    console.log(`Only in app/ (not deployed): ${localOnly.join(', ')}`);
+  }
+  if (DRY_RUN) {
+    console.log('Dry run: no files were written');
+  }
+}
+
+main().catch(err => {
+  console.error('Pull failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,1221 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Test IML Evaluation and Module Communication
+ *
+ * Runs entirely offline. Checks the IML evaluator against known expressions,
+ * then executes each module's full communication chain against canned
+ * responses and asserts exactly what would be sent and returned.
+ *
+ * Usage:
+ *   npx ts-node scripts/test-iml.ts
+ */
+
+import * as assert from 'assert';
+import { evaluate, evaluateExpression } from './lib/iml';
+import {
+  HttpRequest,
+  HttpResponse,
+  ModuleError,
+  Transport,
+  loadAppFile,
+  processWebhookRequest,
+  runModule,
+  runWebhookHook,
+} from './lib/communication';
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  try {
+    await fn();
+    results.push({ name, passed: true });
+    console.log(`  ✓ ${name}`);
+  } catch (e: any) {
+    results.push({ name, passed: false, error: e.message });
+    console.log(`  ✗ ${name}: ${e.message}`);
+  }
+}
+
+type Route = (request: HttpRequest) => any;
+
+/**
+ * Transport answering from a table of "METHOD /path" handlers. A handler can
+ * return a body, or a full HttpResponse to control the status code.
+ */
+function cannedTransport(routes: Record<string, Route>): Transport {
+  return async (request) => {
+    const key = `${request.method} ${new URL(request.url).pathname}`;
+    const route = routes[key];
+    if (!route) {
+      return { statusCode: 404, headers: {}, body: { detail: `No canned response for ${key}` } };
+    }
+    const result = route(request);
+    if (result && typeof result.statusCode === 'number') {
+      return result as HttpResponse;
+    }
+    return { statusCode: 200, headers: {}, body: result };
+  };
+}
+
+/**
+ * Route serving `rows` as artifact `id` like GET /artifacts?artifact_ids=,
+ * one offset/limit page at a time when the request asks for one.
+ */
+function artifactGroup(id: string, rows: any[]): Route {
+  return (request) => {
+    const artifacts = rows.map((data, i) => ({ id: `row-${i}`, data }));
+    if (request.qs.limit === undefined) {
+      return [{ id, type: 'group', artifacts }];
+    }
+    const offset = Number(request.qs.offset || 0);
+    const end = offset + Number(request.qs.limit);
+    return [{
+      id, type: 'group', artifacts: artifacts.slice(offset, end),
+      total: rows.length, next_offset: end < rows.length ? end : null, has_more: end < rows.length,
+    }];
+  };
+}
+
+function requestLines(requests: HttpRequest[]): string[] {
+  return requests.map(r => `${r.method} ${new URL(r.url).pathname}`);
+}
+
+const TEST_DATA = [
+  { name: 'OpenAI', description: 'AI research company' },
+  { name: 'Stripe', description: 'Payment processing platform' },
+];
+
+const CONNECTION = { apiKey: 'sk-test' };
+
+// Test 1: Expression evaluation
+async function testExpressions(): Promise<void> {
+  console.log('\n=== Test: IML Expressions ===\n');
+
+  const context = {
+    parameters: { fieldName: 'score', inputData: '[{"a":1},{"a":2}]', empty: '' },
+    body: { status: 'running', detail: '', items: [{ id: 'x' }, { id: 'y' }], nested: { deep: { value: 42 } } },
+    temp: { sessionId: 'sess-1' },
+  };
+
+  const cases: Array<[string, any]> = [
+    ['parameters.fieldName', 'score'],
+    ['body.nested.deep.value', 42],
+    ['body.items[1].id', 'y'],
+    ['body.missing.path', undefined],
+    ["body.status == 'running'", true],
+    ["if(body.status == 'completed', true, false)", false],
+    ["if(or(body.status == 'pending', body.status == 'running'), true, false)", true],
+    ["ifempty(body.detail, body.message, 'Unknown error')", 'Unknown error'],
+    ["ifempty(parameters.empty, 'fallback')", 'fallback'],
+    ['first(body.items).id', 'x'],
+    ['last(body.items).id', 'y'],
+    ['length(parseJSON(parameters.inputData))', 2],
+    ["'a' + 1 + 2", 'a12'],
+    ['(1 + 2) * 3', 9],
+    ["!temp.sessionId ? 'none' : temp.sessionId", 'sess-1'],
+    ["join(map(body.items, 'id'), ';')", 'x;y'],
+    ['get(body.items, 2).id', 'y'],
+    ["get(body, 'nested.deep.value')", 42],
+    ["length(slice(body.items, 1, 2))", 1],
+    ['if(temp.sessionId, emptyarray, body.items)', []],
+  ];
+
+  for (const [expression, expected] of cases) {
+    await test(`expr: ${expression}`, () => {
+      assert.deepStrictEqual(evaluateExpression(expression, context), expected);
+    });
+  }
+
+  await test('template: single expression keeps its type', () => {
+    assert.deepStrictEqual(evaluate('{{parseJSON(parameters.inputData)}}', context), [{ a: 1 }, { a: 2 }]);
+  });
+
+  await test('template: interpolation builds a string', () => {
+    assert.strictEqual(evaluate('/tasks/{{temp.sessionId}}/status', context), '/tasks/sess-1/status');
+  });
+
+  await test('template: expressions in object keys', () => {
+    assert.deepStrictEqual(
+      evaluate({ '{{parameters.fieldName}}': { type: 'float' } }, context),
+      { score: { type: 'float' } }
+    );
+  });
+}
+
+// Test 2: Full communication chains for every module
+async function testModuleCommunication(): Promise<void> {
+  console.log('\n=== Test: Module Communication ===\n');
+
+  let taskCounter = 0;
+  const engineRoutes: Record<string, Route> = {
+    'POST /sessions/create': () => ({ session_id: 'session-1' }),
+    'POST /tasks': () => ({ task_id: `task-${++taskCounter}` }),
+    'GET /tasks/task-1/status': () => ({ status: 'completed', artifact_id: 'artifact-1' }),
+    'GET /tasks/task-2/status': () => ({ status: 'completed', artifact_id: 'artifact-2' }),
+    'GET /whoami': () => ({ user_id: 'user-1' }),
+  };
+
+  const startModules: Array<[string, Record<string, any>, string]> = [
+    ['startRankTask', { inputData: JSON.stringify(TEST_DATA), task: 'Rank by AI focus', fieldName: 'score', fieldType: 'float', ascendingOrder: false }, 'deep_rank'],
+    ['startScreenTask', { inputData: JSON.stringify(TEST_DATA), task: 'Keep AI companies' }, 'deep_screen'],
+    ['startDedupeTask', { inputData: JSON.stringify(TEST_DATA), equivalenceRelation: 'Same company' }, 'dedupe'],
+    ['startAgentMapTask', { inputData: JSON.stringify(TEST_DATA), task: 'Find the CEO', effortLevel: 'low' }, 'agent'],
+  ];
+  // Dedupe takes no Context Data, so it reports no context counts
+  const uploadCounts = (name: string, inputRows: number, inputBatches: number, contextRows: number = 0, contextBatches: number = 0) =>
+    name === 'startDedupeTask' ? { inputRows, inputBatches } : { inputRows, inputBatches, contextRows, contextBatches };
+
+  for (const [name, parameters, taskType] of startModules) {
+    await test(`${name}: request chain and output`, async () => {
+      taskCounter = 0;
+      const module = loadAppFile(`modules/${name}.imljson`);
+      const run = await runModule(module, { transport: cannedTransport(engineRoutes), parameters, connection: CONNECTION });
+
+      assert.deepStrictEqual(requestLines(run.requests), [
+        'POST /sessions/create',
+        'POST /tasks',
+        'GET /tasks/task-1/status',
+        'POST /tasks',
+      ]);
+      assert.strictEqual(run.requests[0].url, 'https://engine.futuresearch.ai/sessions/create');
+      assert.strictEqual(run.requests[0].headers.Authorization, 'Bearer sk-test');
+      assert.deepStrictEqual(run.requests[1].body.payload.query.data_to_create, TEST_DATA);
+
+      const operation = run.requests[3].body;
+      assert.strictEqual(operation.session_id, 'session-1');
+      assert.strictEqual(operation.payload.task_type, taskType);
+      assert.deepStrictEqual(operation.payload.input_artifacts, ['artifact-1']);
+
+      assert.deepStrictEqual(run.output, [{ taskId: 'task-2', sessionId: 'session-1', status: 'pending', ...uploadCounts(name, 2, 1) }]);
+    });
+  }
+
+  await test('startRankTask: response schema keyed by field name', async () => {
+    taskCounter = 0;
+    const module = loadAppFile('modules/startRankTask.imljson');
+    const run = await runModule(module, {
+      transport: cannedTransport(engineRoutes),
+      parameters: { inputData: '[]', task: 'Rank', fieldName: 'relevance', fieldType: 'int', ascendingOrder: true },
+      connection: CONNECTION,
+    });
+    assert.deepStrictEqual(run.requests[3].body.payload.query, {
+      task: 'Rank',
+      field_to_sort_by: 'relevance',
+      ascending_order: true,
+      response_schema: {
+        _model_name: 'RankResponse',
+        relevance: { type: 'int', optional: false },
+      },
+      llm: null,
+    });
+  });
+
+  await test('startAgentMapTask: response fields become the response schema', async () => {
+    const module = loadAppFile('modules/startAgentMapTask.imljson');
+    const query = async (responseFields: any) => {
+      taskCounter = 0;
+      const run = await runModule(module, {
+        transport: cannedTransport(engineRoutes),
+        parameters: { inputData: '[]', task: 'Company facts', effortLevel: 'low', responseFields },
+        connection: CONNECTION,
+      });
+      return run.requests[3].body.payload.query;
+    };
+
+    const custom = await query([
+      { name: 'founding_year', type: 'int', description: 'Year the company was founded', optional: false },
+      { name: ' headquarters ', type: 'str', description: '', optional: true },
+      { name: '', type: 'str' },
+    ]);
+    assert.strictEqual(custom.response_schema_type, 'CUSTOM');
+    assert.deepStrictEqual(custom.response_schema, {
+      _model_name: 'AgentMapResponse',
+      founding_year: { type: 'int', optional: false, description: 'Year the company was founded' },
+      headquarters: { type: 'str', optional: true },
+    });
+
+    const auto = await query(undefined);
+    assert.strictEqual(auto.response_schema_type, 'AUTO');
+    assert.strictEqual(auto.response_schema, null);
+  });
+
+  await test('startScreenTask: pass and rationale fields and screening schema in the query', async () => {
+    const module = loadAppFile('modules/startScreenTask.imljson');
+    const query = async (parameters: Record<string, any>) => {
+      taskCounter = 0;
+      const run = await runModule(module, {
+        transport: cannedTransport(engineRoutes),
+        parameters: { inputData: '[]', task: 'Keep AI', ...parameters },
+        connection: CONNECTION,
+      });
+      return run.requests[3].body.payload.query;
+    };
+
+    const defaults = await query({});
+    assert.ok(!defaults.return_all_rows);
+    assert.strictEqual(defaults.pass_field, 'passes');
+    assert.strictEqual(defaults.rationale_field, 'rationale');
+    assert.strictEqual(defaults.response_schema_type, 'AUTO');
+    assert.strictEqual(defaults.response_schema, null);
+
+    const custom = await query({
+      returnAllRows: true, passFieldName: ' keep ', rationaleFieldName: 'why',
+      responseFields: [{ name: 'category', type: 'str', description: 'Industry segment', optional: false }],
+    });
+    assert.strictEqual(custom.return_all_rows, true);
+    assert.strictEqual(custom.pass_field, 'keep');
+    assert.strictEqual(custom.rationale_field, 'why');
+    assert.strictEqual(custom.response_schema_type, 'CUSTOM');
+    assert.deepStrictEqual(custom.response_schema, {
+      _model_name: 'ScreenResponse',
+      category: { type: 'str', optional: false, description: 'Industry segment' },
+    });
+  });
+
+  await test('startDedupeTask: output mode and representative rule in the query', async () => {
+    const module = loadAppFile('modules/startDedupeTask.imljson');
+    const query = async (parameters: Record<string, any>) => {
+      taskCounter = 0;
+      const run = await runModule(module, {
+        transport: cannedTransport(engineRoutes),
+        parameters: { inputData: '[]', equivalenceRelation: 'Same company', ...parameters },
+        connection: CONNECTION,
+      });
+      return run.requests[3].body.payload.query;
+    };
+
+    assert.deepStrictEqual(await query({}), {
+      equivalence_relation: 'Same company',
+      output_mode: 'deduplicated',
+      representative_rule: 'first',
+      llm: null,
+    });
+    const clusters = await query({ outputMode: 'clusters', representativeRule: 'most_complete' });
+    assert.strictEqual(clusters.output_mode, 'clusters');
+    assert.strictEqual(clusters.representative_rule, 'most_complete');
+  });
+
+  await test('startMergeTask: six requests with temp carry-over', async () => {
+    taskCounter = 0;
+    const module = loadAppFile('modules/startMergeTask.imljson');
+    const run = await runModule(module, {
+      transport: cannedTransport({
+        ...engineRoutes,
+        'GET /tasks/task-2/status': () => ({ status: 'completed', artifact_id: 'artifact-right' }),
+      }),
+      parameters: { leftTable: JSON.stringify(TEST_DATA), rightTable: '[{"company":"OpenAI"}]', task: 'Match by name' },
+      connection: CONNECTION,
+    });
+
+    assert.deepStrictEqual(requestLines(run.requests), [
+      'POST /sessions/create',
+      'POST /tasks',
+      'GET /tasks/task-1/status',
+      'POST /tasks',
+      'GET /tasks/task-2/status',
+      'POST /tasks',
+    ]);
+    assert.deepStrictEqual(run.temp, {
+      sessionId: 'session-1',
+      leftRows: TEST_DATA,
+      leftBatchTaskIds: ['task-1'],
+      leftBatchArtifactIds: ['artifact-1'],
+      leftArtifactId: 'artifact-1',
+      rightRows: [{ company: 'OpenAI' }],
+      rightBatchTaskIds: ['task-2'],
+      rightBatchArtifactIds: ['artifact-right'],
+      rightArtifactId: 'artifact-right',
+    });
+    assert.deepStrictEqual(run.requests[5].body.payload.input_artifacts, ['artifact-1']);
+    assert.deepStrictEqual(run.requests[5].body.payload.context_artifacts, ['artifact-right']);
+    assert.deepStrictEqual(run.output, [{ taskId: 'task-3', sessionId: 'session-1', status: 'pending', inputRows: 3, inputBatches: 2 }]);
+  });
+
+  await test('startMergeTask: key columns, join type and preview in the query', async () => {
+    const module = loadAppFile('modules/startMergeTask.imljson');
+    const query = async (parameters: Record<string, any>) => {
+      taskCounter = 0;
+      const run = await runModule(module, {
+        transport: cannedTransport(engineRoutes),
+        parameters: { leftTable: '[]', rightTable: '[]', task: 'Match by name', ...parameters },
+        connection: CONNECTION,
+      });
+      return run.requests[run.requests.length - 1].body.payload.query;
+    };
+
+    assert.deepStrictEqual(await query({ leftKey: 'company', rightKey: 'name', joinType: 'left', includeMatchDetails: true, preview: true }), {
+      task: 'Match by name',
+      merge_on_left: 'company',
+      merge_on_right: 'name',
+      join_type: 'left',
+      include_match_details: true,
+      preview: true,
+      llm: null,
+    });
+    const defaults = await query({ leftKey: '', rightKey: '', joinType: '', includeMatchDetails: false, preview: false });
+    assert.strictEqual(defaults.merge_on_left, null);
+    assert.strictEqual(defaults.merge_on_right, null);
+    assert.strictEqual(defaults.join_type, 'inner');
+    assert.strictEqual(defaults.include_match_details, false);
+  });
+
+  /** Engine numbering upload tasks, answering each batch's status with `batchStatus` */
+  function batchEngine(
+    batchStatus: (n: number) => any,
+    combineStatus: Route = () => ({ status: 'completed', artifact_id: 'artifact-combined' })
+  ): Transport {
+    let uploads = 0;
+    const routes: Record<string, Route> = {
+      'POST /sessions/create': () => ({ session_id: 'session-1' }),
+      'POST /tasks': (request) => {
+        const type = request.body.payload.task_type;
+        return { task_id: type === 'create_group' ? `upload-${++uploads}` : type === 'combine_groups' ? 'combine' : 'task-op' };
+      },
+      'GET /tasks/combine/status': combineStatus,
+    };
+    for (let n = 1; n <= 3; n++) {
+      routes[`GET /tasks/upload-${n}/status`] = () => batchStatus(n);
+    }
+    return cannedTransport(routes);
+  }
+
+  const largeInput = JSON.stringify(Array.from({ length: 2500 }, (_, i) => ({ name: `Company ${i}` })));
+  const completedBatch = (n: number) => ({ status: 'completed', artifact_id: `batch-${n}` });
+
+  await test('startScreenTask: large input is uploaded in batches and combined', async () => {
+    const delays: number[] = [];
+    const module = loadAppFile('modules/startScreenTask.imljson');
+    const run = await runModule(module, {
+      transport: batchEngine(completedBatch),
+      sleep: async (ms) => { delays.push(ms); },
+      parameters: { inputData: largeInput, task: 'Keep AI companies' },
+      connection: CONNECTION,
+    });
+
+    assert.deepStrictEqual(requestLines(run.requests), [
+      'POST /sessions/create',
+      'POST /tasks',
+      'POST /tasks',
+      'POST /tasks',
+      'GET /tasks/upload-1/status',
+      'GET /tasks/upload-2/status',
+      'GET /tasks/upload-3/status',
+      'POST /tasks',
+      'GET /tasks/combine/status',
+      'POST /tasks',
+    ]);
+    const batches = run.requests.slice(1, 4).map(r => r.body.payload.query.data_to_create);
+    assert.deepStrictEqual(batches.map(rows => rows.length), [1000, 1000, 500]);
+    assert.strictEqual(batches[2][0].name, 'Company 2000');
+    assert.deepStrictEqual(run.requests[7].body.payload, { task_type: 'combine_groups', input_artifacts: ['batch-1', 'batch-2', 'batch-3'] });
+    assert.deepStrictEqual(run.requests[9].body.payload.input_artifacts, ['artifact-combined']);
+    assert.deepStrictEqual(delays, [0, 0, 1000, 1000]);
+    assert.deepStrictEqual(run.output[0], { taskId: 'task-op', sessionId: 'session-1', status: 'pending', inputRows: 2500, inputBatches: 3, contextRows: 0, contextBatches: 0 });
+  });
+
+  await test('startScreenTask: a failed batch is reported with its position', async () => {
+    const module = loadAppFile('modules/startScreenTask.imljson');
+    await assert.rejects(
+      runModule(module, {
+        transport: batchEngine(n => n === 2 ? { status: 'failed', error: 'Row 1500 is not an object' } : completedBatch(n)),
+        sleep: async () => {},
+        parameters: { inputData: largeInput, task: 'Keep AI companies' },
+        connection: CONNECTION,
+      }),
+      (e: ModuleError) => e.type === 'DataError' && e.message === 'Input batch 2 of 3 failed to upload: Row 1500 is not an object'
+    );
+  });
+
+  await test('startScreenTask: gives up on a batch that never finishes', async () => {
+    const module = loadAppFile('modules/startScreenTask.imljson');
+    await assert.rejects(
+      runModule(module, {
+        transport: batchEngine(n => n === 3 ? { status: 'running', artifact_id: null } : completedBatch(n)),
+        sleep: async () => {},
+        parameters: { inputData: largeInput, task: 'Keep AI companies' },
+        connection: CONNECTION,
+      }),
+      (e: ModuleError) => e.message === 'Input batch 3 of 3 did not finish uploading (status: running)'
+    );
+  });
+
+  await test('startScreenTask: gives up on a combine that never finishes', async () => {
+    const module = loadAppFile('modules/startScreenTask.imljson');
+    const transport = batchEngine(completedBatch, () => ({ status: 'running', artifact_id: null }));
+    const requests: HttpRequest[] = [];
+    await assert.rejects(
+      runModule(module, {
+        transport: (request) => { requests.push(request); return transport(request); },
+        sleep: async () => {},
+        parameters: { inputData: largeInput, task: 'Keep AI companies' },
+        connection: CONNECTION,
+      }),
+      (e: ModuleError) => e.type === 'RuntimeError' && e.message === 'Combining input batches did not finish (status: running)'
+    );
+    // The operation is never created without its input
+    assert.strictEqual(requests.filter(r => r.body?.payload?.task_type === 'deep_screen').length, 0);
+  });
+
+  await test('startRankTask: gives up on a context data combine that never finishes', async () => {
+    const module = loadAppFile('modules/startRankTask.imljson');
+    await assert.rejects(
+      runModule(module, {
+        transport: batchEngine(completedBatch, () => ({ status: 'running', artifact_id: null })),
+        sleep: async () => {},
+        parameters: { inputArtifactId: 'artifact-screened', contextData: largeInput, task: 'Rank', fieldName: 'score', fieldType: 'float' },
+        connection: CONNECTION,
+      }),
+      (e: ModuleError) => e.type === 'RuntimeError' && e.message === 'Combining context data batches did not finish (status: running)'
+    );
+  });
+
+  await test('getTaskStatus: object-form communication and flags', async () => {
+    const module = loadAppFile('modules/getTaskStatus.imljson');
+    const run = await runModule(module, {
+      transport: cannedTransport({ 'GET /tasks/task-9/status': () => ({ status: 'running', artifact_id: null, error: null }) }),
+      parameters: { taskId: 'task-9' },
+      connection: CONNECTION,
+    });
+    assert.deepStrictEqual(run.output, [{
+      status: 'running',
+      artifactId: null,
+      error: null,
+      isComplete: false,
+      isFailed: false,
+      isPending: true,
+      isCancelled: false,
+    }]);
+  });
+
+  await test('cancelTask: cancels a running task, explains one that finished', async () => {
+    const module = loadAppFile('modules/cancelTask.imljson');
+    const transport = cannedTransport({
+      'POST /tasks/task-9/cancel': () => ({ task_id: 'task-9', status: 'cancelled' }),
+      'POST /tasks/task-3/cancel': () => ({ statusCode: 409, headers: {}, body: { detail: 'Task is already completed' } }),
+    });
+    const run = await runModule(module, { transport, parameters: { taskId: 'task-9' }, connection: CONNECTION });
+    assert.deepStrictEqual(requestLines(run.requests), ['POST /tasks/task-9/cancel']);
+    assert.deepStrictEqual(run.output, [{ taskId: 'task-9', status: 'cancelled' }]);
+
+    await assert.rejects(
+      runModule(module, { transport, parameters: { taskId: 'task-3' }, connection: CONNECTION }),
+      (e: ModuleError) => e.type === 'DataError' && e.message === 'Cannot cancel task task-3: Task is already completed'
+    );
+    await assert.rejects(
+      runModule(module, { transport, parameters: { taskId: 'task-404' }, connection: CONNECTION }),
+      (e: ModuleError) => e.type === 'DataError' && e.message === 'Task task-404 not found'
+    );
+  });
+
+  await test('deleteSession: reports the tasks it cancelled', async () => {
+    const module = loadAppFile('modules/deleteSession.imljson');
+    const transport = cannedTransport({
+      'DELETE /sessions/session-1': () => ({ session_id: 'session-1', deleted: true, cancelled_tasks: 2 }),
+    });
+    const run = await runModule(module, { transport, parameters: { sessionId: 'session-1' }, connection: CONNECTION });
+    assert.deepStrictEqual(run.output, [{ sessionId: 'session-1', deleted: true, cancelledTasks: 2 }]);
+
+    await assert.rejects(
+      runModule(module, { transport, parameters: { sessionId: 'session-2' }, connection: CONNECTION }),
+      (e: ModuleError) => e.type === 'DataError' && e.message === 'Session session-2 not found'
+    );
+  });
+
+  await test('getTaskResults: iterates artifact rows', async () => {
+    const module = loadAppFile('modules/getTaskResults.imljson');
+    const run = await runModule(module, {
+      transport: cannedTransport({ 'GET /artifacts': artifactGroup('artifact-7', TEST_DATA) }),
+      parameters: { artifactId: 'artifact-7' },
+      connection: CONNECTION,
+    });
+    assert.deepStrictEqual(requestLines(run.requests), ['GET /artifacts']);
+    assert.deepStrictEqual(run.requests[0].qs, { artifact_ids: 'artifact-7', offset: 0, limit: 500 });
+    assert.deepStrictEqual(run.output, TEST_DATA);
+  });
+
+  await test('getTaskResults: resolves the artifact from a task ID', async () => {
+    const module = loadAppFile('modules/getTaskResults.imljson');
+    const run = await runModule(module, {
+      transport: cannedTransport({
+        'GET /tasks/task-3/status': () => ({ status: 'completed', artifact_id: 'artifact-9' }),
+        'GET /artifacts': artifactGroup('artifact-9', TEST_DATA),
+      }),
+      parameters: { taskId: 'task-3' },
+      connection: CONNECTION,
+    });
+    assert.deepStrictEqual(requestLines(run.requests), ['GET /tasks/task-3/status', 'GET /artifacts']);
+    assert.deepStrictEqual(run.requests[1].qs, { artifact_ids: 'artifact-9', offset: 0, limit: 500 });
+    assert.deepStrictEqual(run.output, TEST_DATA);
+  });
+
+  await test('getTaskResults: pages through every row, stopping at Max Rows', async () => {
+    const module = loadAppFile('modules/getTaskResults.imljson');
+    const rows = Array.from({ length: 1200 }, (_, i) => ({ n: i }));
+    const transport = cannedTransport({ 'GET /artifacts': artifactGroup('artifact-big', rows) });
+
+    const all = await runModule(module, { transport, parameters: { artifactId: 'artifact-big' }, connection: CONNECTION });
+    assert.deepStrictEqual(all.requests.map(r => [r.qs.offset, r.qs.limit]), [[0, 500], [500, 500], [1000, 500]]);
+    assert.strictEqual(all.output.length, 1200);
+    assert.deepStrictEqual(all.output[1199], { n: 1199 });
+
+    const capped = await runModule(module, { transport, parameters: { artifactId: 'artifact-big', maxRows: 600 }, connection: CONNECTION });
+    assert.deepStrictEqual(capped.requests.map(r => [r.qs.offset, r.qs.limit]), [[0, 500], [500, 500]]);
+    assert.strictEqual(capped.output.length, 600);
+
+    const small = await runModule(module, { transport, parameters: { artifactId: 'artifact-big', maxRows: 20 }, connection: CONNECTION });
+    assert.deepStrictEqual(small.requests.map(r => [r.qs.offset, r.qs.limit]), [[0, 20]]);
+    assert.strictEqual(small.output.length, 20);
+  });
+
+  await test('getTaskResults: explains missing results', async () => {
+    const module = loadAppFile('modules/getTaskResults.imljson');
+    const transport = cannedTransport({
+      'GET /tasks/task-3/status': () => ({ status: 'running', artifact_id: null }),
+      'GET /tasks/task-4/status': () => ({ status: 'failed', artifact_id: null, error: 'Out of credits' }),
+      'GET /tasks/task-5/status': () => ({ status: 'cancelled', artifact_id: null }),
+    });
+    await assert.rejects(
+      runModule(module, { transport, parameters: { taskId: 'task-3' }, connection: CONNECTION }),
+      (e: ModuleError) => e.type === 'RuntimeError' && e.message === 'Task has no results yet (status: running)'
+    );
+    await assert.rejects(
+      runModule(module, { transport, parameters: { taskId: 'task-4' }, connection: CONNECTION }),
+      (e: ModuleError) => e.type === 'RuntimeError' && e.message === 'Task failed: Out of credits'
+    );
+    await assert.rejects(
+      runModule(module, { transport, parameters: { taskId: 'task-5' }, connection: CONNECTION }),
+      (e: ModuleError) => e.type === 'RuntimeError' && e.message === 'Task was cancelled'
+    );
+    await assert.rejects(
+      runModule(module, { transport, parameters: {}, connection: CONNECTION }),
+      (e: ModuleError) => e.type === 'DataError' && e.message === 'Provide a Task ID or an Artifact ID'
+    );
+  });
+
+  await test('startScreenTask: CSV and TSV input become row objects', async () => {
+    const module = loadAppFile('modules/startScreenTask.imljson');
+    const upload = async (parameters: Record<string, any>) => {
+      taskCounter = 0;
+      const run = await runModule(module, { transport: cannedTransport(engineRoutes), parameters: { task: 'Keep AI companies', ...parameters }, connection: CONNECTION });
+      return run.requests[1].body.payload.query.data_to_create;
+    };
+
+    const csv = '\uFEFFname,description\r\nOpenAI,"AI research, safety"\r\n"Stripe ""Inc""","Payments\nplatform"\r\n\r\n';
+    assert.deepStrictEqual(await upload({ inputData: csv, inputFormat: 'csv', hasHeaderRow: true, delimiter: ',' }), [
+      { name: 'OpenAI', description: 'AI research, safety' },
+      { name: 'Stripe "Inc"', description: 'Payments\nplatform' },
+    ]);
+    assert.deepStrictEqual(await upload({ inputData: 'OpenAI;AI\nStripe;Payments', inputFormat: 'csv', hasHeaderRow: false, delimiter: ';' }), [
+      { column1: 'OpenAI', column2: 'AI' },
+      { column1: 'Stripe', column2: 'Payments' },
+    ]);
+    assert.deepStrictEqual(await upload({ inputData: 'name\tdescription\nOpenAI\tAI, research', inputFormat: 'tsv', hasHeaderRow: true }), [
+      { name: 'OpenAI', description: 'AI, research' },
+    ]);
+    // Mapped arrays ignore the format
+    assert.deepStrictEqual(await upload({ inputData: TEST_DATA, inputFormat: 'csv' }), TEST_DATA);
+  });
+
+  await test('downloadResultsCsv: one file bundle, input columns first', async () => {
+    const module = loadAppFile('modules/downloadResultsCsv.imljson');
+    const run = await runModule(module, {
+      transport: cannedTransport({
+        'GET /tasks/task-3/status': () => ({ status: 'completed', artifact_id: 'artifact-9' }),
+        'GET /artifacts': () => [{
+          id: 'artifact-9',
+          type: 'group',
+          artifacts: [
+            { id: 'row-1', data: { name: 'OpenAI', description: 'AI, research', rank_score: 0.92 } },
+            { id: 'row-2', data: { name: 'Stripe', description: 'Say "hi"', rank_score: 0.4, sources: ['a', 'b'] } },
+          ],
+        }],
+      }),
+      parameters: { taskId: 'task-3', fileName: 'ranked.csv', delimiter: ',' },
+      connection: CONNECTION,
+    });
+    assert.deepStrictEqual(requestLines(run.requests), ['GET /tasks/task-3/status', 'GET /artifacts']);
+    assert.deepStrictEqual(run.requests[1].qs, { artifact_ids: 'artifact-9' });
+    assert.strictEqual(run.output.length, 1);
+    assert.strictEqual(run.output[0].fileName, 'ranked.csv');
+    assert.strictEqual(run.output[0].rowCount, 2);
+    assert.ok(Buffer.isBuffer(run.output[0].data));
+    assert.strictEqual(run.output[0].data.toString('utf8'), [
+      'name,description,rank_score,sources',
+      'OpenAI,"AI, research",0.92,',
+      'Stripe,"Say ""hi""",0.4,"[""a"",""b""]"',
+      '',
+    ].join('\r\n'));
+  });
+
+  await test('getResultsInterface RPC: columns and types from the result artifact', async () => {
+    const rpc = loadAppFile('rpcs/getResultsInterface.imljson');
+    const transport = cannedTransport({
+      'GET /tasks/task-3/status': () => ({ task_id: 'task-3', status: 'running', artifact_id: null }),
+      'GET /tasks/task-4/status': () => ({ task_id: 'task-4', status: 'completed', artifact_id: 'artifact-7' }),
+      'GET /artifacts': artifactGroup('artifact-7', [
+        { name: 'OpenAI', employees: 1500, score: 1, tags: ['ai'], founded: null },
+        { name: 'Stripe', employees: 8000, score: 0.5, tags: [], founded: '2010' },
+        { name: 'Figma', employees: 'about 1000', score: 0.25 },
+        ...Array.from({ length: 17 }, () => ({ name: 'More' })),
+        { name: 'Late', notSampled: true },
+      ]),
+    });
+    const fields = async (parameters: Record<string, any>) => {
+      const run = await runModule(rpc, { transport, parameters, connection: CONNECTION });
+      return { requests: run.requests, fields: run.output.map(f => `${f.name}:${f.type}`) };
+    };
+
+    const finished = await fields({ taskId: 'task-4' });
+    assert.deepStrictEqual(requestLines(finished.requests), ['GET /tasks/task-4/status', 'GET /artifacts']);
+    // Only the first 20 rows are requested and sampled
+    assert.deepStrictEqual(finished.requests[1].qs, { artifact_ids: 'artifact-7', offset: 0, limit: 20 });
+    assert.deepStrictEqual(finished.fields, ['name:text', 'employees:any', 'score:number', 'tags:array', 'founded:text']);
+
+    assert.deepStrictEqual((await fields({ artifactId: 'artifact-7' })).fields, finished.fields);
+
+    // No results yet: no fields rather than an error
+    const pending = await fields({ taskId: 'task-3' });
+    assert.deepStrictEqual(requestLines(pending.requests), ['GET /tasks/task-3/status']);
+    assert.deepStrictEqual(pending.fields, []);
+
+    assert.deepStrictEqual((await fields({})).requests, []);
+  });
+
+  await test('getModels RPC: maps models to options', async () => {
+    const rpc = loadAppFile('rpcs/getModels.imljson');
+    const run = await runModule(rpc, {
+      transport: cannedTransport({ 'GET /models': () => ({ models: [{ id: 'gpt-4o', name: 'GPT-4o' }] }) }),
+      connection: CONNECTION,
+    });
+    assert.deepStrictEqual(run.output, [{ label: 'GPT-4o', value: 'gpt-4o' }]);
+  });
+
+  await test('getModels RPC: falls back to common.llmModels', async () => {
+    const rpc = loadAppFile('rpcs/getModels.imljson');
+    const run = await runModule(rpc, { transport: cannedTransport({ 'GET /models': () => ({ models: [] }) }), connection: CONNECTION });
+    assert.deepStrictEqual(run.output, loadAppFile('common.imljson').llmModels);
+  });
+
+  await test('start modules: selected model is sent with every operation', async () => {
+    for (const [name, parameters] of startModules) {
+      taskCounter = 0;
+      const run = await runModule(loadAppFile(`modules/${name}.imljson`), {
+        transport: cannedTransport(engineRoutes),
+        parameters: { ...parameters, model: 'claude-3-5-haiku' },
+        connection: CONNECTION,
+      });
+      assert.strictEqual(run.requests[3].body.payload.query.llm, 'claude-3-5-haiku', name);
+    }
+  });
+
+  await test('start modules: new sessions are named', async () => {
+    for (const [name, parameters] of startModules) {
+      taskCounter = 0;
+      const module = loadAppFile(`modules/${name}.imljson`);
+      const named = await runModule(module, {
+        transport: cannedTransport(engineRoutes),
+        parameters: { ...parameters, sessionName: 'Weekly leads' },
+        connection: CONNECTION,
+      });
+      assert.deepStrictEqual(named.requests[0].body, { name: 'Weekly leads' }, name);
+
+      taskCounter = 0;
+      const unnamed = await runModule(module, { transport: cannedTransport(engineRoutes), parameters, connection: CONNECTION });
+      assert.deepStrictEqual(unnamed.requests[0].body, { name: 'Make.com Session' }, name);
+    }
+  });
+
+  await test('start modules: an existing session is reused', async () => {
+    for (const [name, parameters] of startModules) {
+      taskCounter = 0;
+      const run = await runModule(loadAppFile(`modules/${name}.imljson`), {
+        transport: cannedTransport({
+          ...engineRoutes,
+          'GET /sessions/session-7': () => ({ session_id: 'session-7', name: 'Weekly leads', task_count: 2 }),
+        }),
+        parameters: { ...parameters, sessionId: 'session-7', sessionName: 'Ignored' },
+        connection: CONNECTION,
+      });
+      assert.deepStrictEqual(requestLines(run.requests), [
+        'GET /sessions/session-7',
+        'POST /tasks',
+        'GET /tasks/task-1/status',
+        'POST /tasks',
+      ], name);
+      assert.strictEqual(run.requests[3].body.session_id, 'session-7', name);
+      assert.strictEqual(run.output[0].sessionId, 'session-7', name);
+    }
+
+    await assert.rejects(
+      runModule(loadAppFile('modules/startRankTask.imljson'), {
+        transport: cannedTransport(engineRoutes),
+        parameters: { ...startModules[0][1], sessionId: 'missing' },
+        connection: CONNECTION,
+      }),
+      (e: ModuleError) => e.type === 'DataError' && e.message === 'Session missing not found'
+    );
+  });
+
+  await test('start modules: an input artifact is used without uploading', async () => {
+    for (const [name, { inputData, ...parameters }, taskType] of startModules) {
+      taskCounter = 0;
+      const module = loadAppFile(`modules/${name}.imljson`);
+      const run = await runModule(module, {
+        transport: cannedTransport(engineRoutes),
+        parameters: { ...parameters, inputArtifactId: 'artifact-screened' },
+        connection: CONNECTION,
+      });
+      assert.deepStrictEqual(requestLines(run.requests), ['POST /sessions/create', 'POST /tasks'], name);
+      assert.strictEqual(run.requests[1].body.payload.task_type, taskType, name);
+      assert.deepStrictEqual(run.requests[1].body.payload.input_artifacts, ['artifact-screened'], name);
+      assert.deepStrictEqual(run.output[0], { taskId: 'task-1', sessionId: 'session-1', status: 'pending', ...uploadCounts(name, 0, 0) }, name);
+
+      // Checked before the session is created, so no empty session is left behind
+      const transport = cannedTransport(engineRoutes);
+      const requests: HttpRequest[] = [];
+      await assert.rejects(
+        runModule(module, { transport: (request) => { requests.push(request); return transport(request); }, parameters, connection: CONNECTION }),
+        (e: ModuleError) => e.type === 'DataError' && e.message === 'Provide Input Data or an Input Artifact ID',
+        name
+      );
+      assert.deepStrictEqual(requestLines(requests), ['GET /whoami'], name);
+    }
+  });
+
+  await test('start modules: context data is uploaded as a second table', async () => {
+    const withContext = startModules.filter(([name]) => name !== 'startDedupeTask');
+    for (const [name, parameters] of withContext) {
+      taskCounter = 0;
+      const module = loadAppFile(`modules/${name}.imljson`);
+      const run = await runModule(module, {
+        transport: cannedTransport(engineRoutes),
+        parameters: { ...parameters, inputFormat: 'csv', inputData: 'name\nOpenAI\nStripe', contextData: 'name,segment\nOpenAI,customer' },
+        connection: CONNECTION,
+      });
+      assert.deepStrictEqual(requestLines(run.requests), [
+        'POST /sessions/create',
+        'POST /tasks',
+        'GET /tasks/task-1/status',
+        'POST /tasks',
+        'GET /tasks/task-2/status',
+        'POST /tasks',
+      ], name);
+      assert.deepStrictEqual(run.requests[3].body.payload.query.data_to_create, [{ name: 'OpenAI', segment: 'customer' }], name);
+      assert.deepStrictEqual(run.requests[5].body.payload.input_artifacts, ['artifact-1'], name);
+      assert.deepStrictEqual(run.requests[5].body.payload.context_artifacts, ['artifact-2'], name);
+      assert.deepStrictEqual(run.output[0], { taskId: 'task-3', sessionId: 'session-1', status: 'pending', inputRows: 2, inputBatches: 1, contextRows: 1, contextBatches: 1 }, name);
+
+      taskCounter = 0;
+      const without = await runModule(module, { transport: cannedTransport(engineRoutes), parameters, connection: CONNECTION });
+      assert.deepStrictEqual(without.requests[3].body.payload.context_artifacts, [], name);
+    }
+  });
+
+  await test('startMergeTask: either table can be an artifact', async () => {
+    const module = loadAppFile('modules/startMergeTask.imljson');
+    taskCounter = 0;
+    const run = await runModule(module, {
+      transport: cannedTransport(engineRoutes),
+      parameters: { leftArtifactId: 'artifact-left', rightTable: '[{"company":"OpenAI"}]', task: 'Match by name' },
+      connection: CONNECTION,
+    });
+    assert.deepStrictEqual(requestLines(run.requests), ['POST /sessions/create', 'POST /tasks', 'GET /tasks/task-1/status', 'POST /tasks']);
+    assert.deepStrictEqual(run.requests[1].body.payload.query.data_to_create, [{ company: 'OpenAI' }]);
+    assert.deepStrictEqual(run.requests[3].body.payload.input_artifacts, ['artifact-left']);
+    assert.deepStrictEqual(run.requests[3].body.payload.context_artifacts, ['artifact-1']);
+
+    await assert.rejects(
+      runModule(module, {
+        transport: cannedTransport(engineRoutes),
+        parameters: { leftArtifactId: 'artifact-left', task: 'Match by name' },
+        connection: CONNECTION,
+      }),
+      (e: ModuleError) => e.type === 'DataError' && e.message === 'Provide the Left Table and the Right Table, as data or as artifact IDs'
+    );
+  });
+
+  await test('listSessions: name filter, paging and limit', async () => {
+    const sessions = [1, 2, 3].map(n => ({ session_id: `session-${n}`, name: `Leads ${n}`, created_at: '2025-01-15T10:00:00.000Z', task_count: n }));
+    const run = await runModule(loadAppFile('modules/listSessions.imljson'), {
+      transport: cannedTransport({
+        'GET /sessions': (request) => {
+          const offset = Number(request.qs.offset);
+          return { sessions: sessions.slice(offset, offset + 2), total: 3, next_offset: offset + 2, has_more: offset + 2 < 3 };
+        },
+      }),
+      parameters: { search: 'Leads', limit: 3 },
+      connection: CONNECTION,
+    });
+
+    assert.deepStrictEqual(run.requests.map(r => r.qs), [
+      { name: 'Leads', offset: 0, limit: 500 },
+      { name: 'Leads', offset: 2, limit: 500 },
+    ]);
+    assert.deepStrictEqual(run.output.map(o => o.sessionId), ['session-1', 'session-2', 'session-3']);
+    assert.deepStrictEqual(run.output[2], { sessionId: 'session-3', name: 'Leads 3', createdAt: '2025-01-15T10:00:00.000Z', taskCount: 3 });
+  });
+
+  await test('listTasksInSession: input uploads only on request', async () => {
+    const tasks = [
+      { task_id: 'task-1', session_id: 'session-1', task_type: 'create_group', status: 'completed', artifact_id: 'artifact-1', error: null, finished_at: '2025-01-15T10:01:00.000Z' },
+      { task_id: 'task-2', session_id: 'session-1', task_type: 'deep_rank', status: 'completed', artifact_id: 'artifact-2', error: null, finished_at: '2025-01-15T10:05:00.000Z' },
+    ];
+    const module = loadAppFile('modules/listTasksInSession.imljson');
+    const list = (parameters: Record<string, any>) => runModule(module, {
+      transport: cannedTransport({ 'GET /tasks': () => ({ tasks }) }),
+      parameters: { sessionId: 'session-1', ...parameters },
+      connection: CONNECTION,
+    });
+
+    const operations = await list({ status: 'completed' });
+    assert.deepStrictEqual(operations.requests[0].qs, { session_id: 'session-1', status: 'completed' });
+    assert.deepStrictEqual(operations.output, [{
+      taskId: 'task-2', sessionId: 'session-1', taskType: 'deep_rank', status: 'completed',
+      artifactId: 'artifact-2', error: null, finishedAt: '2025-01-15T10:05:00.000Z',
+    }]);
+
+    const all = await list({ includeUploads: true });
+    assert.deepStrictEqual(all.output.map(o => o.taskType), ['create_group', 'deep_rank']);
+  });
+
+  await test('base error handling: 402 maps to insufficient balance', async () => {
+    const module = loadAppFile('modules/getTaskStatus.imljson');
+    await assert.rejects(
+      runModule(module, {
+        transport: cannedTransport({ 'GET /tasks/task-1/status': () => ({ statusCode: 402, headers: {}, body: {} }) }),
+        parameters: { taskId: 'task-1' },
+        connection: CONNECTION,
+      }),
+      (e: ModuleError) => e.type === 'RuntimeError' && e.message.startsWith('Insufficient balance')
+    );
+  });
+
+  await test('base error handling: 404 includes engine detail', async () => {
+    const module = loadAppFile('modules/getTaskStatus.imljson');
+    await assert.rejects(
+      runModule(module, {
+        transport: cannedTransport({}),
+        parameters: { taskId: 'missing' },
+        connection: CONNECTION,
+      }),
+      (e: ModuleError) => e.type === 'DataError' && e.message.includes('No canned response')
+    );
+  });
+}
+
+// Test 3: Run Task and Wait polls with `repeat` until the task finishes
+async function testRunTaskAndWait(): Promise<void> {
+  console.log('\n=== Test: Run Task and Wait ===\n');
+
+  const module = loadAppFile('modules/runTaskAndWait.imljson');
+
+  /** Engine whose operation task reports `statuses` in order, then repeats the last one */
+  function pollingEngine(statuses: any[]): { transport: Transport; delays: number[]; sleep: (ms: number) => Promise<void> } {
+    let taskCounter = 0;
+    let polls = 0;
+    const delays: number[] = [];
+    const transport = cannedTransport({
+      'POST /sessions/create': () => ({ session_id: 'session-1' }),
+      'POST /tasks': (request) => ({ task_id: request.body.payload.task_type === 'create_group' ? `upload-${++taskCounter}` : 'task-op' }),
+      'GET /tasks/upload-1/status': () => ({ status: 'completed', artifact_id: 'artifact-in' }),
+      'GET /tasks/upload-2/status': () => ({ status: 'completed', artifact_id: 'artifact-context' }),
+      'GET /tasks/task-op/status': () => statuses[Math.min(polls++, statuses.length - 1)],
+      'GET /artifacts': artifactGroup('artifact-out', TEST_DATA),
+    });
+    return { transport, delays, sleep: async (ms) => { delays.push(ms); } };
+  }
+
+  await test('runTaskAndWait: polls until completed and emits rows', async () => {
+    const engine = pollingEngine([
+      { status: 'pending', artifact_id: null },
+      { status: 'running', artifact_id: null },
+      { status: 'completed', artifact_id: null },
+      { status: 'completed', artifact_id: 'artifact-out' },
+    ]);
+    const run = await runModule(module, {
+      transport: engine.transport,
+      sleep: engine.sleep,
+      parameters: { operation: 'rank', inputData: JSON.stringify(TEST_DATA), task: 'Rank', fieldName: 'score', fieldType: 'float', ascendingOrder: false, timeout: 300 },
+      connection: CONNECTION,
+    });
+
+    assert.deepStrictEqual(requestLines(run.requests), [
+      'POST /sessions/create',
+      'POST /tasks',
+      'GET /tasks/upload-1/status',
+      'POST /tasks',
+      'GET /tasks/task-op/status',
+      'GET /tasks/task-op/status',
+      'GET /tasks/task-op/status',
+      'GET /tasks/task-op/status',
+      'GET /tasks/task-op/status',
+      'GET /artifacts',
+    ]);
+    assert.strictEqual(run.requests[3].body.payload.task_type, 'deep_rank');
+    assert.deepStrictEqual(run.requests[3].body.payload.input_artifacts, ['artifact-in']);
+    assert.deepStrictEqual(engine.delays, [5000, 5000, 5000]);
+    assert.deepStrictEqual(run.requests[9].qs, { artifact_ids: 'artifact-out', offset: 0, limit: 500 });
+    assert.deepStrictEqual(run.output, TEST_DATA);
+  });
+
+  await test('runTaskAndWait: adds the task to an existing session', async () => {
+    const engine = pollingEngine([{ status: 'completed', artifact_id: 'artifact-out' }]);
+    const run = await runModule(module, {
+      transport: async (request) => request.url.endsWith('/sessions/session-7')
+        ? { statusCode: 200, headers: {}, body: { session_id: 'session-7', name: 'Weekly leads', task_count: 2 } }
+        : engine.transport(request),
+      sleep: engine.sleep,
+      parameters: { operation: 'screen', inputData: JSON.stringify(TEST_DATA), task: 'Keep AI companies', timeout: 300, sessionId: 'session-7' },
+      connection: CONNECTION,
+    });
+
+    assert.deepStrictEqual(requestLines(run.requests).slice(0, 2), ['GET /sessions/session-7', 'POST /tasks']);
+    assert.strictEqual(run.requests[3].body.session_id, 'session-7');
+    assert.deepStrictEqual(run.output, TEST_DATA);
+  });
+
+  await test('runTaskAndWait: chains on the artifact of an earlier task', async () => {
+    const engine = pollingEngine([{ status: 'completed', artifact_id: 'artifact-out' }]);
+    const run = await runModule(module, {
+      transport: engine.transport,
+      sleep: engine.sleep,
+      parameters: { operation: 'rank', inputArtifactId: 'artifact-screened', task: 'Rank', fieldName: 'score', fieldType: 'float', timeout: 300 },
+      connection: CONNECTION,
+    });
+
+    assert.deepStrictEqual(requestLines(run.requests), [
+      'POST /sessions/create',
+      'POST /tasks',
+      'GET /tasks/task-op/status',
+      'GET /tasks/task-op/status',
+      'GET /artifacts',
+    ]);
+    assert.deepStrictEqual(run.requests[1].body.payload.input_artifacts, ['artifact-screened']);
+    assert.deepStrictEqual(run.output, TEST_DATA);
+  });
+
+  await test('runTaskAndWait: context data goes with screen', async () => {
+    const engine = pollingEngine([{ status: 'completed', artifact_id: 'artifact-out' }]);
+    const run = await runModule(module, {
+      transport: engine.transport,
+      sleep: engine.sleep,
+      parameters: { operation: 'screen', inputData: JSON.stringify(TEST_DATA), contextData: '[{"name":"OpenAI"}]', task: 'Drop existing customers', timeout: 300 },
+      connection: CONNECTION,
+    });
+
+    const screen = run.requests.find(r => r.body?.payload?.task_type === 'deep_screen')!;
+    assert.deepStrictEqual(screen.body.payload.input_artifacts, ['artifact-in']);
+    assert.deepStrictEqual(screen.body.payload.context_artifacts, ['artifact-context']);
+    assert.deepStrictEqual(run.requests[3].body.payload.query.data_to_create, [{ name: 'OpenAI' }]);
+  });
+
+  await test('runTaskAndWait: merge uploads both tables', async () => {
+    const engine = pollingEngine([{ status: 'completed', artifact_id: 'artifact-out' }]);
+    const run = await runModule(module, {
+      transport: engine.transport,
+      sleep: engine.sleep,
+      parameters: { operation: 'merge', leftTable: JSON.stringify(TEST_DATA), rightTable: '[{"company":"OpenAI"}]', task: 'Match', timeout: 300 },
+      connection: CONNECTION,
+    });
+    const operation = run.requests.find(r => r.body?.payload?.task_type === 'deep_merge');
+    assert.deepStrictEqual(operation?.body.payload.input_artifacts, ['artifact-in']);
+    assert.deepStrictEqual(operation?.body.payload.context_artifacts, ['artifact-context']);
+    assert.deepStrictEqual(engine.delays, []);
+  });
+
+  await test('runTaskAndWait: failed task raises its error', async () => {
+    const engine = pollingEngine([{ status: 'running' }, { status: 'failed', error: 'Input too large' }]);
+    await assert.rejects(
+      runModule(module, {
+        transport: engine.transport,
+        sleep: engine.sleep,
+        parameters: { operation: 'screen', inputData: '[]', task: 'Keep AI', timeout: 300 },
+        connection: CONNECTION,
+      }),
+      (e: ModuleError) => e.type === 'RuntimeError' && e.message === 'Task failed: Input too large'
+    );
+  });
+
+  await test('runTaskAndWait: stops polling a cancelled task', async () => {
+    const engine = pollingEngine([{ status: 'running' }, { status: 'cancelled' }]);
+    await assert.rejects(
+      runModule(module, {
+        transport: engine.transport,
+        sleep: engine.sleep,
+        parameters: { operation: 'agentMap', inputData: '[]', task: 'Research', timeout: 300 },
+        connection: CONNECTION,
+      }),
+      (e: ModuleError) => e.type === 'RuntimeError' && e.message === 'Task was cancelled'
+    );
+    assert.strictEqual(engine.delays.length, 1);
+  });
+
+  await test('runTaskAndWait: gives up after the timeout', async () => {
+    const engine = pollingEngine([{ status: 'running' }]);
+    await assert.rejects(
+      runModule(module, {
+        transport: engine.transport,
+        sleep: engine.sleep,
+        parameters: { operation: 'dedupe', inputData: '[]', equivalenceRelation: 'Same', timeout: 20 },
+        connection: CONNECTION,
+      }),
+      (e: ModuleError) => e.message === 'Task did not finish within 20 seconds (status: running)'
+    );
+    // 20s at a 5s interval: 4 polls, with a wait between each
+    assert.deepStrictEqual(engine.delays, [5000, 5000, 5000]);
+  });
+
+  await test('runTaskAndWait: an empty timeout waits the default 300 seconds', async () => {
+    const engine = pollingEngine([{ status: 'running' }]);
+    await assert.rejects(
+      runModule(module, {
+        transport: engine.transport,
+        sleep: engine.sleep,
+        parameters: { operation: 'dedupe', inputData: '[]', equivalenceRelation: 'Same', timeout: '' },
+        connection: CONNECTION,
+      }),
+      (e: ModuleError) => e.message === 'Task did not finish within 300 seconds (status: running)'
+    );
+    // 300s at a 5s interval: 60 polls
+    assert.strictEqual(engine.delays.length, 59);
+  });
+}
+
+// Test 4: Task Completed webhook (attach, incoming callbacks, detach)
+async function testTaskCompletedWebhook(): Promise<void> {
+  console.log('\n=== Test: Task Completed Webhook ===\n');
+
+  const webhook = loadAppFile('webhooks/task-completed.imljson');
+  const hookUrl = 'https://hook.make.com/abc123';
+
+  await test('attach: registers the Make.com URL and keeps the hook ID', async () => {
+    const run = await runWebhookHook(webhook, 'attach', {
+      transport: cannedTransport({ 'POST /webhooks': () => ({ webhook_id: 'hook-1' }) }),
+      connection: CONNECTION,
+      webhook: { url: hookUrl },
+    });
+    assert.deepStrictEqual(requestLines(run.requests), ['POST /webhooks']);
+    assert.deepStrictEqual(run.requests[0].body, { url: hookUrl, events: ['task.completed'] });
+    assert.strictEqual(run.requests[0].headers.Authorization, 'Bearer sk-test');
+    assert.deepStrictEqual(run.data, { externalHookId: 'hook-1' });
+  });
+
+  await test('detach: deletes the hook attach registered', async () => {
+    const run = await runWebhookHook(webhook, 'detach', {
+      transport: cannedTransport({ 'DELETE /webhooks/hook-1': () => ({ webhook_id: 'hook-1', deleted: true }) }),
+      connection: CONNECTION,
+      webhook: { externalHookId: 'hook-1' },
+    });
+    assert.deepStrictEqual(requestLines(run.requests), ['DELETE /webhooks/hook-1']);
+  });
+
+  await test('callback: one bundle per finished task', () => {
+    const completed = processWebhookRequest(webhook, {
+      body: { event: 'task.completed', task_type: 'deep_rank', task_id: 'task-1', session_id: 'session-1', status: 'completed', artifact_id: 'artifact-1', error: null },
+    });
+    assert.deepStrictEqual(completed, [
+      { taskId: 'task-1', sessionId: 'session-1', status: 'completed', artifactId: 'artifact-1', error: null },
+    ]);
+
+    const failed = processWebhookRequest(webhook, {
+      body: { event: 'task.completed', task_type: 'deep_screen', task_id: 'task-2', session_id: 'session-1', status: 'failed', artifact_id: null, error: 'Out of credits' },
+    });
+    assert.deepStrictEqual(failed, [
+      { taskId: 'task-2', sessionId: 'session-1', status: 'failed', artifactId: null, error: 'Out of credits' },
+    ]);
+  });
+
+  await test('callback: other events and input uploads are ignored', () => {
+    assert.deepStrictEqual(processWebhookRequest(webhook, { body: { event: 'task.started', task_id: 'task-1' } }), []);
+    assert.deepStrictEqual(processWebhookRequest(webhook, {
+      body: { event: 'task.completed', task_type: 'create_group', task_id: 'upload-1', status: 'completed', artifact_id: 'artifact-in' },
+    }), []);
+  });
+}
+
+// Test 5: Watch Completed Tasks keeps its epoch between runs
+async function testWatchCompletedTasks(): Promise<void> {
+  console.log('\n=== Test: Watch Completed Tasks ===\n');
+
+  const module = loadAppFile('modules/watchCompletedTasks.imljson');
+  const finished = (id: string, status: string, finishedAt: string, taskType: string = 'deep_rank') => ({
+    task_id: id,
+    session_id: 'session-1',
+    task_type: taskType,
+    status,
+    artifact_id: status === 'completed' ? `artifact-${id}` : null,
+    error: status === 'failed' ? 'Boom' : null,
+    finished_at: finishedAt,
+  });
+  // Ignores finished_since, so the trigger's own state must prevent repeats
+  const tasks = [
+    finished('upload-1', 'completed', '2025-01-01T00:00:01.000Z', 'create_group'),
+    finished('task-1', 'completed', '2025-01-01T00:00:02.000Z'),
+    finished('task-2', 'failed', '2025-01-01T00:00:03.000Z'),
+    finished('task-3', 'completed', '2025-01-01T00:00:03.000Z'),
+    finished('task-4', 'completed', '2025-01-01T00:00:04.000Z'),
+  ];
+  const transport = cannedTransport({ 'GET /tasks': () => ({ tasks }) });
+
+  await test('first run: finished tasks up to the limit, uploads skipped', async () => {
+    const run = await runModule(module, { transport, connection: CONNECTION, parameters: { sessionId: 'session-1', limit: 2 } });
+    assert.deepStrictEqual(run.requests[0].qs, { session_id: 'session-1', status: 'completed,failed', order: 'asc' });
+    assert.deepStrictEqual(run.output.map(b => `${b.taskId}:${b.status}`), ['task-1:completed', 'task-2:failed']);
+    assert.deepStrictEqual(run.output[1], {
+      taskId: 'task-2', sessionId: 'session-1', status: 'failed', artifactId: null, error: 'Boom', finishedAt: '2025-01-01T00:00:03.000Z',
+    });
+    assert.deepStrictEqual(run.epoch, { id: 'task-2', date: '2025-01-01T00:00:03.000Z' });
+  });
+
+  await test('next run: continues after the epoch without repeats or gaps', async () => {
+    const epoch = { id: 'task-2', date: '2025-01-01T00:00:03.000Z' };
+    const run = await runModule(module, { transport, connection: CONNECTION, parameters: { limit: 2 }, epoch });
+    assert.strictEqual(run.requests[0].qs.finished_since, epoch.date);
+    assert.strictEqual(run.requests[0].qs.session_id, undefined);
+    // task-3 finished at the same time as task-2, where the previous run stopped
+    assert.deepStrictEqual(run.output.map(b => b.taskId), ['task-3', 'task-4']);
+    assert.deepStrictEqual(run.epoch, { id: 'task-4', date: '2025-01-01T00:00:04.000Z' });
+
+    const idle = await runModule(module, { transport, connection: CONNECTION, parameters: { limit: 2 }, epoch: run.epoch });
+    assert.deepStrictEqual(idle.output, []);
+    assert.deepStrictEqual(idle.epoch, run.epoch);
+  });
+}
+
+// Main
+async function main() {
+  console.log('=== IML Evaluation Tests ===');
+
+  await testExpressions();
+  await testModuleCommunication();
+  await testRunTaskAndWait();
+  await testTaskCompletedWebhook();
+  await testWatchCompletedTasks();
+
+  // Summary
+  console.log('\n=== Test Summary ===\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed).length;
+
+  console.log(`Passed: ${passed}`);
+  console.log(`Failed: ${failed}`);
+
+  if (failed > 0) {
+    console.log('\nFailed tests:');
+    results.filter(r => !r.passed).forEach(r => {
+      console.log(`  - ${r.name}: ${r.error}`);
+    });
+    process.exit(1);
+  }
+}
+
+main().catch(e => {
+  console.error('Test runner error:', e);
+  process.exit(1);
+});
@@ -2,16 +2,24 @@
 /**
  * Test Make.com Parameter Validation
  *
- * This script simulates how Make.com validates module parameters before
- * making API calls. It helps catch "Validation error: [Collection]" type
- * issues before deploying.
+ * Make.com validates module parameters before it runs any communication: a
+ * "text" parameter mapped to an array fails with "Validation error:
+ * [Collection]". This script checks every data parameter of the Start
+ * modules against the input shapes users map into them:
+ *
+ * 1. Make.com's parameter validation accepts the value
+ * 2. The module (run against the mock engine) uploads the rows create_group
+ *    expects, after normalizeRows (app/functions/normalizeRows.js)
  *
  * Usage:
  *   npx ts-node scripts/test-makecom-validation.ts
  */
 
+import * as assert from 'assert';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createFetchTransport, runModule } from './lib/communication';
+import { MockEngine, startMockEngine } from './lib/mock-engine';
 
 const APP_DIR = path.join(__dirname, '..', 'app');
 
@@ -20,6 +28,7 @@ interface Parameter {
   type: string;
   required?: boolean;
   default?: any;
+  options?: any;
   spec?: any;
 }
 
@@ -36,22 +45,75 @@ interface ValidationResult {
   warnings: string[];
 }
 
-// Sample test inputs that simulate what Make.com would pass
-const TEST_INPUTS = {
-  // Collection from another Make.com module (e.g., Set Variable, Iterator)
-  collection: [
-    { name: "OpenAI", description: "AI company" },
-    { name: "Stripe", description: "Payments" },
-  ],
-  // JSON string (if user uses toString())
-  jsonString: '[{"name":"OpenAI","description":"AI company"},{"name":"Stripe","description":"Payments"}]',
-  // Simple string
-  text: "some text value",
-  // Boolean
-  boolean: true,
-  // Number
-  number: 42,
-};
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+const results: TestResult[] = [];
+
+const ROWS = [
+  { name: "OpenAI", description: "AI company" },
+  { name: "Stripe", description: "Payments" },
+];
+
+// What Make.com passes for each way of filling a data parameter, and the
+// rows the module should upload for it (with the Input Format it needs)
+const INPUT_SHAPES: Array<{ name: string; value: any; rows: any[]; parameters?: Record<string, any> }> = [
+  {
+    // Array Aggregator (or Set Variable) output mapped directly
+    name: 'aggregated array of collections',
+    value: ROWS.map((row, i) => ({ ...row, __IMTINDEX__: i + 1, __IMTLENGTH__: ROWS.length })),
+    rows: ROWS,
+  },
+  {
+    // {{toString(...)}} or JSON typed into the field
+    name: 'JSON text',
+    value: JSON.stringify(ROWS),
+    rows: ROWS,
+  },
+  {
+    // Google Sheets > Search Rows: values keyed by column index
+    name: 'Google Sheets search rows',
+    value: ROWS.map((row, i) => ({
+      '0': row.name,
+      '1': row.description,
+      __ROW_NUMBER__: i + 2,
+      __SPREADSHEET_ID__: '1AbCdEf',
+      __SHEET__: 'Companies',
+      __IMTINDEX__: i + 1,
+      __IMTLENGTH__: ROWS.length,
+    })),
+    rows: ROWS.map(row => ({ '0': row.name, '1': row.description })),
+  },
+  {
+    // Airtable > Search Records: fields next to the record ID
+    name: 'Airtable search records',
+    value: ROWS.map((row, i) => ({ id: `rec${i}`, createdTime: '2025-01-01T00:00:00.000Z', ...row })),
+    rows: ROWS.map((row, i) => ({ id: `rec${i}`, createdTime: '2025-01-01T00:00:00.000Z', ...row })),
+  },
+  {
+    // Airtable API records, e.g. from an HTTP module
+    name: 'Airtable API records',
+    value: ROWS.map((row, i) => ({ id: `rec${i}`, createdTime: '2025-01-01T00:00:00.000Z', fields: row })),
+    rows: ROWS.map((row, i) => ({ id: `rec${i}`, createdTime: '2025-01-01T00:00:00.000Z', ...row })),
+  },
+  {
+    // Text of a downloaded CSV file (e.g. Google Drive > Download a File)
+    name: 'CSV text',
+    value: 'name,description\r\n' + ROWS.map(row => `${row.name},${row.description}`).join('\r\n'),
+    rows: ROWS,
+    parameters: { inputFormat: 'csv', hasHeaderRow: true, delimiter: ',' },
+  },
+  {
+    // Spreadsheet cells copied into the field
+    name: 'TSV text',
+    value: 'name\tdescription\n' + ROWS.map(row => `${row.name}\t${row.description}`).join('\n'),
+    rows: ROWS,
+    parameters: { inputFormat: 'tsv', hasHeaderRow: true },
+  },
+];
 
 /**
  * Simulate Make.com's parameter validation
@@ -75,6 +137,10 @@ function validateMakecomParameter(
 
   // Type-specific validation
   switch (param.type) {
+    case 'any':
+      // Accepts text, arrays and collections as mapped
+      break;
+
     case 'text':
       // Make.com rejects collections/arrays for text type with "Validation error: [Collection]"
       if (Array.isArray(value)) {
@@ -99,28 +165,15 @@ function validateMakecomParameter(
         result.errors.push(
           `Parameter "${param.name}" expects array but got ${typeof value}`
         );
-      } else {
-        // Check spec if provided
-        if (param.spec && Array.isArray(param.spec) && param.spec.length > 0) {
-          // Make.com expects items to match the spec structure
-          result.warnings.push(
-            `Parameter "${param.name}" has array spec - Make.com will validate each item`
-          );
-        } else if (param.spec && typeof param.spec === 'object' && !Array.isArray(param.spec)) {
-          // Object spec like { type: "collection", spec: [] }
-          const specType = param.spec.type;
-          if (specType === 'collection') {
-            // Each item should be an object
-            for (let i = 0; i < value.length; i++) {
-              if (typeof value[i] !== 'object' || Array.isArray(value[i])) {
-                result.warnings.push(
-                  `Array item ${i} in "${param.name}" should be an object (collection)`
-                );
-              }
-            }
+      } else if (param.spec && typeof param.spec === 'object' && !Array.isArray(param.spec) && param.spec.type === 'collection') {
+        // Each item should be an object
+        for (let i = 0; i < value.length; i++) {
+          if (typeof value[i] !== 'object' || Array.isArray(value[i])) {
+            result.warnings.push(
+              `Array item ${i} in "${param.name}" should be an object (collection)`
+            );
           }
         }
-        // Empty spec [] means "accept any array" - should work
       }
       break;
 
@@ -147,82 +200,109 @@ function validateMakecomParameter(
 }
 
 /**
- * Test a module's parameters against various input types
+ * Parameters holding the rows a module uploads
+ */
+function dataParameters(module: Module): Parameter[] {
+  return (module.parameters || []).filter(p => ['inputData', 'leftTable', 'rightTable'].includes(p.name));
+}
+
+/**
+ * A value for every other required parameter, so the module can run.
+ */
+function otherParameters(module: Module): Record<string, any> {
+  const values: Record<string, any> = {};
+  for (const param of module.parameters || []) {
+    if (dataParameters(module).includes(param)) continue;
+    if (param.default !== undefined) {
+      values[param.name] = param.default;
+    } else if (param.required) {
+      values[param.name] = param.type === 'select' && Array.isArray(param.options) ? param.options[0].value : 'Test';
+    }
+  }
+  return values;
+}
+
+async function record(name: string, fn: () => void | Promise<void>): Promise<void> {
+  try {
+    await fn();
+    console.log(`  ✓ ${name}`);
+    results.push({ name, passed: true });
+  } catch (e: any) {
+    console.log(`  ✗ ${name}: ${e.message}`);
+    results.push({ name, passed: false, error: e.message });
+  }
+}
+
+/**
+ * Test a module's data parameters against every input shape
  */
-function testModuleValidation(modulePath: string): void {
+async function testModuleValidation(modulePath: string, mock: MockEngine): Promise<void> {
   const fileName = path.basename(modulePath, '.imljson');
   console.log(`\n=== Testing: ${fileName} ===\n`);
 
-  const content = fs.readFileSync(modulePath, 'utf-8');
-  const module: Module = JSON.parse(content);
+  const module: Module = JSON.parse(fs.readFileSync(modulePath, 'utf-8'));
+  const params = dataParameters(module);
 
-  if (!module.parameters || module.parameters.length === 0) {
-    console.log('  (no parameters to validate)');
-    return;
-  }
+  for (const shape of INPUT_SHAPES) {
+    await record(`${fileName}: ${shape.name}`, async () => {
+      for (const param of params) {
+        const validation = validateMakecomParameter(param, shape.value);
+        if (!validation.valid) {
+          throw new Error(validation.errors.join('; '));
+        }
+      }
 
-  // Find array/collection parameters (most likely to cause issues)
-  const dataParams = module.parameters.filter(p =>
-    p.name.toLowerCase().includes('data') ||
-    p.name.toLowerCase().includes('table') ||
-    p.name.toLowerCase().includes('input')
-  );
-
-  for (const param of dataParams) {
-    console.log(`  Parameter: ${param.name} (type: ${param.type})`);
-    console.log(`  Spec: ${JSON.stringify(param.spec)}`);
-
-    // Test with collection input (simulating mapping from another module)
-    console.log('\n  Testing with collection input:');
-    const collectionResult = validateMakecomParameter(param, TEST_INPUTS.collection);
-    if (collectionResult.valid) {
-      console.log('    ✓ Collection input accepted');
-    } else {
-      console.log('    ✗ Collection input rejected:');
-      collectionResult.errors.forEach(e => console.log(`      - ${e}`));
-    }
-    collectionResult.warnings.forEach(w => console.log(`    ⚠ ${w}`));
-
-    // Test with JSON string input
-    console.log('\n  Testing with JSON string input:');
-    const stringResult = validateMakecomParameter(param, TEST_INPUTS.jsonString);
-    if (stringResult.valid) {
-      console.log('    ✓ JSON string input accepted');
-    } else {
-      console.log('    ✗ JSON string input rejected:');
-      stringResult.errors.forEach(e => console.log(`      - ${e}`));
-    }
-    stringResult.warnings.forEach(w => console.log(`    ⚠ ${w}`));
+      const before = mock.tasks.size;
+      await runModule(module, {
+        transport: createFetchTransport(),
+        baseUrl: mock.url,
+        parameters: { ...otherParameters(module), ...shape.parameters, ...Object.fromEntries(params.map(p => [p.name, shape.value])) },
+        connection: { apiKey: mock.apiKey },
+      });
 
-    console.log('');
+      // One upload per data parameter, in parameter order
+      const uploads = [...mock.tasks.values()].slice(before).filter(t => t.taskType === 'create_group');
+      assert.strictEqual(uploads.length, params.length, 'create_group tasks');
+      for (const upload of uploads) {
+        assert.deepStrictEqual(upload.payload.query.data_to_create, shape.rows);
+      }
+    });
   }
 }
 
 // Main
-function main() {
+async function main() {
   console.log('=== Make.com Parameter Validation Tests ===');
-  console.log('This tests how Make.com would validate our module parameters.\n');
+  console.log('This tests how Make.com would validate our module parameters.');
 
   const modulesDir = path.join(APP_DIR, 'modules');
   const startModules = fs.readdirSync(modulesDir)
-    .filter(f => f.startsWith('start') && f.endsWith('.imljson'));
+    .filter(f => f.startsWith('start') && f.endsWith('.imljson'))
+    .sort();
 
-  for (const file of startModules) {
-    testModuleValidation(path.join(modulesDir, file));
+  const mock = await startMockEngine();
+  try {
+    for (const file of startModules) {
+      await testModuleValidation(path.join(modulesDir, file), mock);
+    }
+  } finally {
+    await mock.close();
   }
 
-  console.log('\n=== Recommendations ===\n');
-  console.log('If Make.com rejects collection input with "Validation error: [Collection]":');
-  console.log('');
-  console.log('Option 1: Use type "array" with spec: []');
-  console.log('  This tells Make.com to accept any array without validating structure.');
-  console.log('');
-  console.log('Option 2: Use type "text" and have users convert with toString()');
-  console.log('  In mapping: {{toString(1.dataSet)}}');
-  console.log('  In module communication: {{parseJSON(parameters.inputData)}}');
-  console.log('');
-  console.log('Option 3: Use explicit collection spec');
-  console.log('  Define the exact structure of objects the module accepts.');
+  console.log('\n=== Test Summary ===\n');
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.filter(r => !r.passed);
+  console.log(`Passed: ${passed}`);
+  console.log(`Failed: ${failed.length}`);
+
+  if (failed.length > 0) {
+    console.log('\nFailed tests:');
+    failed.forEach(r => console.log(`  - ${r.name}: ${r.error}`));
+    process.exit(1);
+  }
 }
 
-main();
+main().catch(err => {
+  console.error('Test failed:', err);
+  process.exit(1);
+});
@@ -5,22 +5,40 @@
  * This script tests our module definitions by:
  * 1. Validating the JSON structure
  * 2. Simulating what Make.com would send to our API
- * 3. Running actual API calls against EveryRow
+ * 3. Running the modules' communication against the EveryRow API
+ *
+ * Without EVERYROW_API_KEY the tests run against a local mock engine
+ * (scripts/lib/mock-engine.ts), so no network access is needed. Tests that
+ * need to control task lifecycles or inject errors only run in that mode.
  *
  * Usage:
- *   EVERYROW_API_KEY=sk-xxx npx ts-node scripts/test-module.ts
+ *   npx ts-node scripts/test-module.ts                          # mock engine
+ *   EVERYROW_API_KEY=sk-xxx npx ts-node scripts/test-module.ts  # live API
  */
 
 import * as fs from 'fs';
+import * as http from 'http';
 import * as path from 'path';
+import { AddressInfo } from 'net';
+import { TemplateSource, buildCustomAppBlueprint, buildHttpBlueprint } from './lib/blueprint';
+import {
+  ModuleError,
+  RunResult,
+  createFetchTransport,
+  loadAppFile,
+  processWebhookRequest,
+  resolveInterface,
+  runModule,
+  runWebhookHook,
+} from './lib/communication';
+import { MockEngine, MockEngineOptions, startMockEngine } from './lib/mock-engine';
+import { formatIssue, validateApp, validateBlueprint, validateComponent, validateTemplates } from './lib/validate';
 
-const EVERYROW_API_KEY = process.env.EVERYROW_API_KEY;
-const EVERYROW_BASE_URL = process.env.EVERYROW_BASE_URL || 'https://app.everyrow.com/api';
+let EVERYROW_API_KEY = process.env.EVERYROW_API_KEY;
+let EVERYROW_BASE_URL = process.env.EVERYROW_BASE_URL || 'https://app.everyrow.com/api';
 
-if (!EVERYROW_API_KEY) {
-  console.error('Error: EVERYROW_API_KEY environment variable is required');
-  process.exit(1);
-}
+// Set in main() when no API key is given
+let engine: MockEngine | null = null;
 
 const APP_DIR = path.join(__dirname, '..', 'app');
 
@@ -60,55 +78,199 @@ async function apiRequest(
   return { status: response.status, data };
 }
 
-// Test 1: Validate module JSON structure
+// Test 1: Validate every app/ file (scripts/lib/validate.ts)
 async function testModuleStructure(): Promise<void> {
-  console.log('\n=== Test: Module JSON Structure ===\n');
+  console.log('\n=== Test: App Definition Structure ===\n');
 
-  const modulesDir = path.join(APP_DIR, 'modules');
-  const files = fs.readdirSync(modulesDir).filter(f => f.endsWith('.imljson'));
+  const issues = validateApp();
+  const files = ['connections', 'webhooks', 'modules', 'rpcs'].flatMap(dir =>
+    fs.readdirSync(path.join(APP_DIR, dir))
+      .filter(f => f.endsWith('.imljson'))
+      .map(f => path.join('app', dir, f))
+  );
 
   for (const file of files) {
-    const filePath = path.join(modulesDir, file);
-    const moduleName = file.replace('.imljson', '');
-
-    try {
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const module = JSON.parse(content);
-
-      // Check required fields
-      const requiredFields = ['label', 'type', 'connection'];
-      const missingFields = requiredFields.filter(f => !module[f]);
-
-      if (missingFields.length > 0) {
-        results.push({
-          name: `structure:${moduleName}`,
-          passed: false,
-          error: `Missing required fields: ${missingFields.join(', ')}`
-        });
-        console.log(`  ✗ ${moduleName}: Missing fields: ${missingFields.join(', ')}`);
-      } else {
-        // Check communication array exists
-        if (!Array.isArray(module.communication) || module.communication.length === 0) {
-          results.push({
-            name: `structure:${moduleName}`,
-            passed: false,
-            error: 'Missing or empty communication array'
-          });
-          console.log(`  ✗ ${moduleName}: Missing communication array`);
-        } else {
-          results.push({ name: `structure:${moduleName}`, passed: true });
-          console.log(`  ✓ ${moduleName}: Valid structure`);
-        }
-      }
-    } catch (e: any) {
+    const name = path.basename(file, '.imljson');
+    const fileIssues = issues.filter(i => i.file === file);
+    if (fileIssues.length > 0) {
       results.push({
-        name: `structure:${moduleName}`,
+        name: `structure:${name}`,
         passed: false,
-        error: `JSON parse error: ${e.message}`
+        error: fileIssues.map(formatIssue).join('; ')
       });
-      console.log(`  ✗ ${moduleName}: ${e.message}`);
+      console.log(`  ✗ ${name}:`);
+      fileIssues.forEach(i => console.log(`      ${i.path}: ${i.message}`));
+    } else {
+      results.push({ name: `structure:${name}`, passed: true });
+      console.log(`  ✓ ${name}: Valid structure`);
     }
   }
+
+  // The validator itself must catch the mistakes it exists for
+  const rank = loadAppFile('modules/startRankTask.imljson');
+  const broken = JSON.parse(JSON.stringify(rank));
+  const fieldTypeIndex = rank.parameters.findIndex((p: any) => p.name === 'fieldType');
+  const sessionIndex = rank.communication.findIndex((c: any) => c.url === '/sessions/create');
+  const uploadIndex = rank.communication.findIndex((c: any) => c.url === '/tasks');
+  const operationIndex = rank.communication.length - 1;
+  broken.parameters[2].type = 'dropdown';
+  broken.parameters[fieldTypeIndex].options = [];
+  broken.communication[uploadIndex].body.session_id = '{{temp.sessionid}}';
+  broken.interface[0].name = 'task_id';
+  broken.samples.status = 1;
+  broken.communication[sessionIndex].body.name = '{{sessionName(parameters.task)}}';
+  delete broken.communication[0].condition;
+
+  const found = validateComponent('module', 'app/modules/startRankTask.imljson', broken, { connections: ['everyrow-api'], functions: ['normalizeRows'] })
+    .map(i => `${i.path}: ${i.message}`);
+  const expected = [
+    'parameters[2].type: unknown parameter type "dropdown"',
+    `parameters[${fieldTypeIndex}].options: select parameter has no options`,
+    `communication[${uploadIndex}].body.session_id: temp.sessionid is not defined by an earlier request`,
+    'interface[0].name: interface field "task_id" is not in response.output',
+    `communication[${operationIndex}].response.output.taskId: output "taskId" is not declared in interface`,
+    'samples.taskId: sample field "taskId" is not in interface',
+    'samples.status: sample is number but interface type is text',
+    `communication[${sessionIndex}].body.name: unknown function "sessionName"`,
+    'communication[0]: request that always fails (response.valid false) needs a condition',
+  ];
+  const missing = expected.filter(e => !found.some(f => f.startsWith(e)));
+  results.push({
+    name: 'structure:validator-catches-errors',
+    passed: missing.length === 0,
+    error: missing.length > 0 ? `Not reported: ${missing.join('; ')} (got: ${found.join('; ')})` : undefined
+  });
+  console.log(`  ${missing.length === 0 ? '✓' : '✗'} validator reports ${found.length} issues in a broken module`);
+
+  // Instant triggers are checked against the webhook that feeds them
+  const trigger = loadAppFile('modules/watchTaskCompleted.imljson');
+  const webhooks = { 'task-completed': loadAppFile('webhooks/task-completed.imljson') };
+  const renamed = { ...trigger, interface: [...trigger.interface, { name: 'rows', label: 'Rows', type: 'array' }] };
+  const unlinked = { ...trigger, webhook: undefined };
+  const triggerIssues = [
+    ...validateComponent('module', 'app/modules/watchTaskCompleted.imljson', renamed, { connections: ['everyrow-api'], webhooks }),
+    ...validateComponent('module', 'app/modules/watchTaskCompleted.imljson', unlinked, { connections: ['everyrow-api'], webhooks }),
+  ].map(i => `${i.path}: ${i.message}`);
+  const expectedTriggerIssues = [
+    'interface[5].name: interface field "rows" is not in the webhook output',
+    'webhook: instant trigger has no webhook',
+  ];
+  const triggerMissing = expectedTriggerIssues.filter(e => !triggerIssues.includes(e));
+  results.push({
+    name: 'structure:validator-checks-instant-triggers',
+    passed: triggerMissing.length === 0,
+    error: triggerMissing.length > 0 ? `Not reported: ${triggerMissing.join('; ')} (got: ${triggerIssues.join('; ')})` : undefined
+  });
+  console.log(`  ${triggerMissing.length === 0 ? '✓' : '✗'} validator checks instant triggers against their webhook`);
+
+  // Every field type select offers exactly the engine types in common.fieldTypes
+  const fieldTypes = JSON.stringify(loadAppFile('common.imljson').fieldTypes);
+  const agentMap = loadAppFile('modules/startAgentMapTask.imljson');
+  const screen = loadAppFile('modules/startScreenTask.imljson');
+  const typeSelects: Array<[string, any]> = [
+    ['startRankTask fieldType', rank.parameters.find((p: any) => p.name === 'fieldType')],
+    ['startAgentMapTask responseFields.type', agentMap.parameters.find((p: any) => p.name === 'responseFields').spec.find((p: any) => p.name === 'type')],
+    ['startScreenTask responseFields.type', screen.parameters.find((p: any) => p.name === 'responseFields').spec.find((p: any) => p.name === 'type')],
+    ['getTaskResults responseFields.type', loadAppFile('modules/getTaskResults.imljson').parameters.find((p: any) => p.name === 'responseFields').spec.find((p: any) => p.name === 'type')],
+  ];
+  const mismatched = typeSelects.filter(([, param]) => JSON.stringify(param.options) !== fieldTypes).map(([name]) => name);
+  results.push({
+    name: 'structure:field-types-match-common',
+    passed: mismatched.length === 0,
+    error: mismatched.length > 0 ? `Options differ from common.fieldTypes: ${mismatched.join(', ')}` : undefined
+  });
+  console.log(`  ${mismatched.length === 0 ? '✓' : '✗'} field type selects match common.fieldTypes`);
+}
+
+// Test 1b: Template blueprints only use modules, parameters and outputs that exist
+async function testTemplates(): Promise<void> {
+  console.log('\n=== Test: Template Blueprints ===\n');
+
+  const issues = validateTemplates();
+  const templatesDir = path.join(APP_DIR, '..', 'templates');
+  const files = fs.readdirSync(templatesDir).filter(f => f.endsWith('.json'));
+
+  for (const file of files) {
+    const fileIssues = issues.filter(i => i.file === path.join('templates', file));
+    results.push({
+      name: `template:${file}`,
+      passed: fileIssues.length === 0,
+      error: fileIssues.length > 0 ? fileIssues.map(formatIssue).join('; ') : undefined
+    });
+    console.log(`  ${fileIssues.length === 0 ? '✓' : '✗'} ${file}`);
+    fileIssues.forEach(i => console.log(`      ${i.path}: ${i.message}`));
+  }
+
+  const blueprint = {
+    flow: [
+      { id: 1, module: 'util:SetVariables', mapper: { variables: [{ name: 'inputData', value: '[]' }] } },
+      { id: 2, module: 'app#custom-app-oonbtb:startMergeTask', mapper: { leftTable: '{{1.inputData}}', rightTable: '{{1.rows}}', joinColumn: 'company' } },
+      { id: 3, module: 'app#custom-app-oonbtb:getTaskStatus', mapper: { taskId: '{{2.id}}' } },
+      { id: 4, module: 'app#custom-app-oonbtb:startSortTask', mapper: {} },
+    ],
+  };
+  const modules = {
+    startMergeTask: loadAppFile('modules/startMergeTask.imljson'),
+    getTaskStatus: loadAppFile('modules/getTaskStatus.imljson'),
+  };
+  const found = validateBlueprint('templates/broken.json', blueprint, modules).map(i => `${i.path}: ${i.message}`);
+  const expected = [
+    'flow[1].mapper.rightTable: module 1 doesn\'t output "rows"',
+    'flow[1].mapper.joinColumn: "joinColumn" is not a parameter of startMergeTask',
+    'flow[1].mapper: missing required parameter "task" of startMergeTask',
+    'flow[2].mapper.taskId: module 2 doesn\'t output "id"',
+    'flow[3].module: module "startSortTask" does not exist in app/modules',
+  ];
+  const missing = expected.filter(e => !found.some(f => f.startsWith(e)));
+  results.push({
+    name: 'template:checker-catches-errors',
+    passed: missing.length === 0,
+    error: missing.length > 0 ? `Not reported: ${missing.join('; ')} (got: ${found.join('; ')})` : undefined
+  });
+  console.log(`  ${missing.length === 0 ? '✓' : '✗'} checker reports ${found.length} issues in a broken blueprint`);
+}
+
+// Test 1c: Both template variants are generated from the same source
+async function testTemplateGenerator(): Promise<void> {
+  console.log('\n=== Test: Template Generator ===\n');
+
+  const source: TemplateSource = JSON.parse(
+    fs.readFileSync(path.join(APP_DIR, '..', 'templates', 'sources', 'everyrow-rank.json'), 'utf-8')
+  );
+
+  try {
+    const custom = buildCustomAppBlueprint(source, 'custom-app-test');
+    const modules = custom.flow.map(m => m.module);
+    if (!modules.includes('app#custom-app-test:startRankTask') || modules.some(m => m.includes('oonbtb'))) {
+      throw new Error(`App ID not applied: ${modules.join(', ')}`);
+    }
+
+    const http = await buildHttpBlueprint(source);
+    const requests = http.flow
+      .filter(m => m.module === 'http:ActionSendData')
+      .map(m => `${m.mapper.method.toUpperCase()} ${m.mapper.url}`);
+    const expected = [
+      'POST https://engine.futuresearch.ai/sessions/create',
+      'POST https://engine.futuresearch.ai/tasks',
+      'GET https://engine.futuresearch.ai/tasks/{{3.data.task_id}}/status',
+      'POST https://engine.futuresearch.ai/tasks',
+      'GET https://engine.futuresearch.ai/tasks/{{6.data.task_id}}/status',
+      'GET https://engine.futuresearch.ai/artifacts?artifact_ids={{8.data.artifact_id}}',
+    ];
+    if (JSON.stringify(requests) !== JSON.stringify(expected)) {
+      throw new Error(`Unexpected requests: ${requests.join(' | ')}`);
+    }
+    const submit = JSON.parse(http.flow[5].mapper.body.replace('{{1.inputData}}', '[]'));
+    if (submit.payload.task_type !== 'deep_rank' || submit.payload.input_artifacts[0] !== '{{5.data.artifact_id}}') {
+      throw new Error(`Unexpected task body: ${http.flow[5].mapper.body}`);
+    }
+
+    results.push({ name: 'template:generator', passed: true });
+    console.log(`  ✓ custom-app variant uses the given app ID; HTTP variant replays ${requests.length} requests`);
+  } catch (e: any) {
+    results.push({ name: 'template:generator', passed: false, error: e.message });
+    console.log(`  ✗ ${e.message}`);
+  }
 }
 
 // Test 2: Simulate Make.com parameter processing
@@ -126,6 +288,10 @@ function simulateMakecomParameters(
     if (value === undefined && param.default !== undefined) {
       value = param.default;
     }
+    // Fields left empty are not sent at all
+    if (value === undefined) {
+      continue;
+    }
 
     // Simulate type conversion
     switch (param.type) {
@@ -158,49 +324,7 @@ function simulateMakecomParameters(
   return result;
 }
 
-// Test 3: Simulate IML template processing
-function processImlTemplate(template: string, context: Record<string, any>): any {
-  // Simple IML template processor for testing
-  let result = template;
-
-  // Handle {{parameters.xxx}}
-  result = result.replace(/\{\{parameters\.(\w+)\}\}/g, (_, key) => {
-    const value = context.parameters?.[key];
-    if (typeof value === 'object') {
-      return JSON.stringify(value);
-    }
-    return value;
-  });
-
-  // Handle {{temp.xxx}}
-  result = result.replace(/\{\{temp\.(\w+)\}\}/g, (_, key) => {
-    return context.temp?.[key] || '';
-  });
-
-  // Handle {{body.xxx}}
-  result = result.replace(/\{\{body\.(\w+)\}\}/g, (_, key) => {
-    return context.body?.[key] || '';
-  });
-
-  // Handle parseJSON() - for when input is a JSON string
-  result = result.replace(/\{\{parseJSON\(([^)]+)\)\}\}/g, (_, expr) => {
-    // Extract the value from the expression
-    const match = expr.match(/parameters\.(\w+)/);
-    if (match) {
-      const value = context.parameters?.[match[1]];
-      if (typeof value === 'string') {
-        return JSON.stringify(JSON.parse(value));
-      }
-      // If already an object/array, just stringify it
-      return JSON.stringify(value);
-    }
-    return '';
-  });
-
-  return result;
-}
-
-// Test 4: Full API flow test for startRankTask
+// Test 3: Full API flow test for startRankTask
 async function testStartRankTaskFlow(): Promise<void> {
   console.log('\n=== Test: Start Rank Task API Flow ===\n');
 
@@ -209,7 +333,6 @@ async function testStartRankTaskFlow(): Promise<void> {
 
   // Test input - simulating what Make.com would send
   const testInput = {
-    sessionName: 'Test Rank Session',
     inputData: TEST_DATA,  // This is an array/collection
     task: 'Rank by relevance to AI',
     fieldName: 'rank_score',
@@ -230,92 +353,40 @@ async function testStartRankTaskFlow(): Promise<void> {
       console.log('     ✓ inputData is "array" type - should accept collections');
     }
 
-    // Step 2: Create session
-    console.log('  2. Creating session...');
-    const sessionRes = await apiRequest('POST', '/sessions/create', {
-      name: testInput.sessionName
+    // Step 2: Run the module's communication chain against the live API
+    console.log('  2. Running module communication...');
+    const parameters = simulateMakecomParameters(module.parameters, {
+      ...testInput,
+      inputData: inputDataParam?.type === 'text' ? JSON.stringify(testInput.inputData) : testInput.inputData,
     });
 
-    if (sessionRes.status !== 200 && sessionRes.status !== 201) {
-      throw new Error(`Failed to create session: ${JSON.stringify(sessionRes.data)}`);
-    }
-
-    const sessionId = sessionRes.data.session_id;
-    console.log(`     Session ID: ${sessionId}`);
-
-    // Step 3: Create artifact
-    console.log('  3. Creating artifact...');
-    const artifactRes = await apiRequest('POST', '/tasks', {
-      session_id: sessionId,
-      payload: {
-        task_type: 'create_group',
-        query: {
-          data_to_create: testInput.inputData  // Direct array, not JSON string
-        }
-      }
+    const run = await runModule(module, {
+      transport: createFetchTransport(),
+      baseUrl: EVERYROW_BASE_URL,
+      parameters,
+      connection: { apiKey: EVERYROW_API_KEY },
     });
 
-    if (artifactRes.status !== 200 && artifactRes.status !== 201) {
-      throw new Error(`Failed to create artifact: ${JSON.stringify(artifactRes.data)}`);
+    for (const request of run.requests) {
+      console.log(`     ${request.method} ${request.url}`);
     }
 
-    const artifactTaskId = artifactRes.data.task_id;
-    console.log(`     Artifact task ID: ${artifactTaskId}`);
-
-    // Step 4: Wait for artifact
-    console.log('  4. Waiting for artifact...');
-    let artifactId: string | null = null;
-    for (let i = 0; i < 30; i++) {
-      const statusRes = await apiRequest('GET', `/tasks/${artifactTaskId}/status`);
-      if (statusRes.data.artifact_id) {
-        artifactId = statusRes.data.artifact_id;
-        break;
-      }
-      if (statusRes.data.status === 'failed') {
-        throw new Error(`Artifact creation failed: ${JSON.stringify(statusRes.data)}`);
-      }
-      await new Promise(r => setTimeout(r, 1000));
+    const output = run.output[0];
+    if (!output?.taskId) {
+      throw new Error(`Module returned no task ID: ${JSON.stringify(run.output)}`);
     }
-
-    if (!artifactId) {
-      throw new Error('Timeout waiting for artifact');
-    }
-    console.log(`     Artifact ID: ${artifactId}`);
-
-    // Step 5: Create rank task
-    console.log('  5. Creating rank task...');
-    const rankRes = await apiRequest('POST', '/tasks', {
-      session_id: sessionId,
-      payload: {
-        task_type: 'deep_rank',
-        query: {
-          task: testInput.task,
-          field_to_sort_by: testInput.fieldName,
-          ascending_order: testInput.ascendingOrder,
-          response_schema: {
-            _model_name: 'RankResponse',
-            [testInput.fieldName]: {
-              type: testInput.fieldType,
-              optional: false
-            }
-          }
-        },
-        input_artifacts: [artifactId],
-        context_artifacts: []
-      }
-    });
-
-    if (rankRes.status !== 200 && rankRes.status !== 201) {
-      throw new Error(`Failed to create rank task: ${JSON.stringify(rankRes.data)}`);
+    if (!run.temp.inputArtifactId) {
+      throw new Error('Input artifact ID was empty when the rank task was created');
     }
 
-    const rankTaskId = rankRes.data.task_id;
-    console.log(`     Rank task ID: ${rankTaskId}`);
+    console.log(`     Session ID: ${output.sessionId}`);
+    console.log(`     Input artifact ID: ${run.temp.inputArtifactId}`);
+    console.log(`     Rank task ID: ${output.taskId}`);
 
     results.push({
       name: 'api:startRankTask',
       passed: true,
-      details: { sessionId, artifactId, rankTaskId }
+      details: { sessionId: output.sessionId, artifactId: run.temp.inputArtifactId, rankTaskId: output.taskId }
     });
     console.log('\n  ✓ API flow test passed');
 
@@ -329,7 +400,7 @@ async function testStartRankTaskFlow(): Promise<void> {
   }
 }
 
-// Test 5: Test that parseJSON works with string input
+// Test 4: Test that parseJSON works with string input
 async function testParseJsonFlow(): Promise<void> {
   console.log('\n=== Test: parseJSON with String Input ===\n');
 
@@ -369,14 +440,706 @@ async function testParseJsonFlow(): Promise<void> {
   }
 }
 
+/**
+ * Run a module against the API under test (live or mock).
+ */
+async function run(moduleFile: string, parameters: Record<string, any>, target?: { url: string; apiKey: string }): Promise<RunResult> {
+  return runModule(loadAppFile(moduleFile), {
+    transport: createFetchTransport(),
+    baseUrl: target?.url || EVERYROW_BASE_URL,
+    parameters,
+    connection: { apiKey: target?.apiKey || EVERYROW_API_KEY },
+    // The mock engine advances per poll, so Run Task and Wait needn't sleep
+    sleep: engine || target ? async () => {} : undefined,
+  });
+}
+
+/**
+ * Poll Get Task Status until the task leaves pending/running.
+ */
+async function waitForTask(taskId: string, target?: { url: string; apiKey: string }): Promise<any[]> {
+  const statuses: any[] = [];
+  for (let i = 0; i < 60; i++) {
+    const status = (await run('modules/getTaskStatus.imljson', { taskId }, target)).output[0];
+    statuses.push(status);
+    if ((status.isComplete && status.artifactId) || status.isFailed || status.isCancelled) {
+      return statuses;
+    }
+    if (!engine) {
+      await new Promise(r => setTimeout(r, 2000));
+    }
+  }
+  throw new Error(`Timeout waiting for task ${taskId}`);
+}
+
+/**
+ * Start a dedicated mock engine for a test that needs its own configuration.
+ */
+async function withMockEngine(options: MockEngineOptions, fn: (mock: MockEngine) => Promise<void>): Promise<void> {
+  const mock = await startMockEngine(options);
+  try {
+    await fn(mock);
+  } finally {
+    await mock.close();
+  }
+}
+
+// Test 5: Connection check
+async function testConnection(): Promise<void> {
+  console.log('\n=== Test: Connection /whoami ===\n');
+
+  const connection = loadAppFile('connections/everyrow-api.imljson');
+
+  try {
+    const whoami = await runModule(connection, {
+      transport: createFetchTransport(),
+      baseUrl: EVERYROW_BASE_URL,
+      parameters: { apiKey: EVERYROW_API_KEY },
+    });
+    if (!whoami.output[0]?.email) {
+      throw new Error(`No email in /whoami response: ${JSON.stringify(whoami.output)}`);
+    }
+    console.log(`  ✓ Valid key accepted (${whoami.output[0].email})`);
+    results.push({ name: 'connection:valid', passed: true });
+  } catch (e: any) {
+    console.log(`  ✗ Valid key rejected: ${e.message}`);
+    results.push({ name: 'connection:valid', passed: false, error: e.message });
+  }
+
+  try {
+    await runModule(connection, {
+      transport: createFetchTransport(),
+      baseUrl: EVERYROW_BASE_URL,
+      parameters: { apiKey: 'sk-invalid' },
+    });
+    throw new Error('Invalid key was accepted');
+  } catch (e: any) {
+    if (e instanceof ModuleError && e.type === 'ConnectionError') {
+      console.log(`  ✓ Invalid key rejected: ${e.message}`);
+      results.push({ name: 'connection:invalid', passed: true });
+    } else {
+      console.log(`  ✗ ${e.message}`);
+      results.push({ name: 'connection:invalid', passed: false, error: e.message });
+    }
+  }
+}
+
+// Test 6: Start → poll → results for every operation
+async function testOperationFlows(): Promise<void> {
+  console.log('\n=== Test: Operation Flows ===\n');
+
+  const flows: Array<[string, Record<string, any>]> = [
+    ['startRankTask', { inputData: JSON.stringify(TEST_DATA), task: 'Rank by relevance to AI', fieldName: 'score', fieldType: 'float', ascendingOrder: false }],
+    ['startScreenTask', { inputData: JSON.stringify(TEST_DATA), task: 'Keep only AI companies' }],
+    ['startDedupeTask', { inputData: JSON.stringify([...TEST_DATA, { name: 'Open AI', description: 'AI lab' }]), equivalenceRelation: 'Same company' }],
+    ['startMergeTask', { leftTable: JSON.stringify(TEST_DATA), rightTable: JSON.stringify([{ company: 'OpenAI', ceo: 'Sam Altman' }]), task: 'Match companies by name' }],
+    ['startAgentMapTask', { inputData: JSON.stringify(TEST_DATA), task: 'Find the company headquarters', effortLevel: 'low' }],
+  ];
+
+  for (const [moduleName, parameters] of flows) {
+    try {
+      const start = (await run(`modules/${moduleName}.imljson`, parameters)).output[0];
+      const statuses = await waitForTask(start.taskId);
+      const final = statuses[statuses.length - 1];
+      if (!final.isComplete) {
+        throw new Error(`Task ended with status ${final.status}: ${final.error}`);
+      }
+
+      const rows = (await run('modules/getTaskResults.imljson', { taskId: start.taskId })).output;
+      if (rows.length === 0) {
+        throw new Error('Task completed without result rows');
+      }
+
+      console.log(`  ✓ ${moduleName}: ${statuses.map(s => s.status).join(' → ')}, ${rows.length} rows`);
+      results.push({ name: `flow:${moduleName}`, passed: true, details: { taskId: start.taskId, rows: rows.length } });
+    } catch (e: any) {
+      console.log(`  ✗ ${moduleName}: ${e.message}`);
+      results.push({ name: `flow:${moduleName}`, passed: false, error: e.message });
+    }
+  }
+}
+
+// Test 6b: Run Task and Wait for every operation
+async function testRunTaskAndWaitFlows(): Promise<void> {
+  console.log('\n=== Test: Run Task and Wait ===\n');
+
+  const operations: Array<[string, Record<string, any>]> = [
+    ['rank', { inputData: JSON.stringify(TEST_DATA), task: 'Rank by relevance to AI', fieldName: 'score', fieldType: 'float', ascendingOrder: false }],
+    ['screen', { inputData: JSON.stringify(TEST_DATA), task: 'Keep only AI companies' }],
+    ['dedupe', { inputData: JSON.stringify(TEST_DATA), equivalenceRelation: 'Same company' }],
+    ['merge', { leftTable: JSON.stringify(TEST_DATA), rightTable: JSON.stringify([{ company: 'OpenAI', ceo: 'Sam Altman' }]), task: 'Match companies by name' }],
+    ['agentMap', { inputData: JSON.stringify(TEST_DATA), task: 'Find the company headquarters', effortLevel: 'low' }],
+  ];
+
+  for (const [operation, parameters] of operations) {
+    try {
+      const rows = (await run('modules/runTaskAndWait.imljson', { operation, timeout: 300, ...parameters })).output;
+      if (rows.length === 0) {
+        throw new Error('Task completed without result rows');
+      }
+      console.log(`  ✓ ${operation}: ${rows.length} rows`);
+      results.push({ name: `wait:${operation}`, passed: true });
+    } catch (e: any) {
+      console.log(`  ✗ ${operation}: ${e.message}`);
+      results.push({ name: `wait:${operation}`, passed: false, error: e.message });
+    }
+  }
+}
+
+// Test 7: Task lifecycles and error handling (mock engine only)
+async function testMockScenarios(): Promise<void> {
+  console.log('\n=== Test: Lifecycles and Errors (mock engine) ===\n');
+
+  const scenarios: Array<[string, MockEngineOptions, (mock: MockEngine) => Promise<void>]> = [
+    ['lifecycle: pending → running → completed', {}, async (mock) => {
+      const start = (await run('modules/startScreenTask.imljson', { inputData: JSON.stringify(TEST_DATA), task: 'Keep AI' }, mock)).output[0];
+      const statuses = await waitForTask(start.taskId, mock);
+      const flags = statuses.map(s => `${s.status}:${s.isPending}/${s.isComplete}`);
+      if (flags.join(',') !== 'pending:true/false,running:true/false,completed:false/true') {
+        throw new Error(`Unexpected lifecycle: ${flags.join(', ')}`);
+      }
+    }],
+    ['lifecycle: failed task reports its error', { failures: { deep_rank: 'Model refused the request' } }, async (mock) => {
+      const start = (await run('modules/startRankTask.imljson', { inputData: JSON.stringify(TEST_DATA), task: 'Rank', fieldName: 'score', fieldType: 'float' }, mock)).output[0];
+      const final = (await waitForTask(start.taskId, mock)).pop();
+      if (!final.isFailed || final.error !== 'Model refused the request') {
+        throw new Error(`Expected failure, got ${JSON.stringify(final)}`);
+      }
+    }],
+    ['lifecycle: artifact arrives after completion', { lifecycles: { deep_screen: ['completed'] }, artifactDelays: { deep_screen: 2 } }, async (mock) => {
+      const start = (await run('modules/startScreenTask.imljson', { inputData: JSON.stringify(TEST_DATA), task: 'Keep AI' }, mock)).output[0];
+      const statuses = await waitForTask(start.taskId, mock);
+      const artifactIds = statuses.map(s => s.artifactId);
+      if (artifactIds.length !== 3 || artifactIds[0] !== null || artifactIds[1] !== null || !artifactIds[2]) {
+        throw new Error(`Unexpected artifact IDs: ${JSON.stringify(artifactIds)}`);
+      }
+    }],
+    ['wait: failed task surfaces as an error', { failures: { dedupe: 'Equivalence relation is empty' } }, async (mock) => {
+      await expectModuleError(
+        run('modules/runTaskAndWait.imljson', { operation: 'dedupe', inputData: JSON.stringify(TEST_DATA), equivalenceRelation: '', timeout: 300 }, mock),
+        'RuntimeError', 'Task failed: Equivalence relation is empty'
+      );
+    }],
+    ['wait: waits for a delayed artifact', { lifecycles: { deep_screen: ['completed'] }, artifactDelays: { deep_screen: 2 } }, async (mock) => {
+      const rows = (await run('modules/runTaskAndWait.imljson', { operation: 'screen', inputData: JSON.stringify(TEST_DATA), task: 'Keep AI', timeout: 300 }, mock)).output;
+      if (rows.length === 0) {
+        throw new Error('No rows after the artifact arrived');
+      }
+    }],
+    ['wait: times out on a task that never finishes', { lifecycles: { deep_rank: ['pending', 'running', 'running', 'running', 'running'] } }, async (mock) => {
+      await expectModuleError(
+        run('modules/runTaskAndWait.imljson', { operation: 'rank', inputData: JSON.stringify(TEST_DATA), task: 'Rank', fieldName: 'score', fieldType: 'float', timeout: 10 }, mock),
+        'RuntimeError', 'Task did not finish within 10 seconds'
+      );
+    }],
+    ['trigger: watch completed tasks emits each task once', {}, async (mock) => {
+      const watch = (parameters: Record<string, any>, epoch?: any) => runModule(loadAppFile('modules/watchCompletedTasks.imljson'), {
+        transport: createFetchTransport(),
+        baseUrl: mock.url,
+        parameters,
+        connection: { apiKey: mock.apiKey },
+        epoch,
+      });
+      const first = (await run('modules/startScreenTask.imljson', { inputData: JSON.stringify(TEST_DATA), task: 'Keep AI' }, mock)).output[0];
+      const second = (await run('modules/startDedupeTask.imljson', { inputData: JSON.stringify(TEST_DATA), equivalenceRelation: 'Same' }, mock)).output[0];
+      await mock.finishTask(first.taskId);
+
+      const inSession = await watch({ sessionId: first.sessionId, limit: 10 });
+      if (inSession.output.map(b => b.taskId).join(',') !== first.taskId) {
+        throw new Error(`Expected only ${first.taskId}, got ${JSON.stringify(inSession.output)}`);
+      }
+      if ((await watch({ sessionId: first.sessionId, limit: 10 }, inSession.epoch)).output.length !== 0) {
+        throw new Error('Task emitted again on the next run');
+      }
+
+      await mock.finishTask(second.taskId);
+      const account = await watch({ limit: 10 }, inSession.epoch);
+      if (account.output.map(b => `${b.taskId}:${b.status}`).join(',') !== `${second.taskId}:completed`) {
+        throw new Error(`Expected ${second.taskId} after the epoch, got ${JSON.stringify(account.output)}`);
+      }
+    }],
+    ['results: large artifact is paged through whole unless Max Rows is set', {}, async (mock) => {
+      const artifactId = mock.createArtifact(Array.from({ length: 1200 }, (_, i) => ({ n: i })));
+      const all = (await run('modules/getTaskResults.imljson', { artifactId }, mock)).output;
+      if (all.length !== 1200 || all[1199].n !== 1199) {
+        throw new Error(`Got ${all.length} rows`);
+      }
+      const pages = mock.requests.filter(r => r.path === '/artifacts').map(r => r.query.offset);
+      if (pages.join(',') !== '0,500,1000') {
+        throw new Error(`Expected pages at offsets 0,500,1000, got ${pages.join(',')}`);
+      }
+      const capped = (await run('modules/getTaskResults.imljson', { artifactId, maxRows: 100 }, mock)).output;
+      if (capped.length !== 100) {
+        throw new Error(`Max Rows 100 returned ${capped.length} rows`);
+      }
+    }],
+    ['upload: large input is uploaded in batches and combined', {}, async (mock) => {
+      const rows = Array.from({ length: 2500 }, (_, i) => ({ name: `Company ${i}` }));
+      const output = (await run('modules/runTaskAndWait.imljson', {
+        operation: 'screen', inputData: JSON.stringify(rows), task: 'Keep AI companies', timeout: 300,
+      }, mock)).output;
+      const types = [...mock.tasks.values()].map(t => t.taskType);
+      if (types.join(',') !== 'create_group,create_group,create_group,combine_groups,deep_screen') {
+        throw new Error(`Unexpected tasks: ${types.join(', ')}`);
+      }
+      // The mock screen keeps every other row of the combined input
+      if (output.length !== 1250 || output[1249].name !== 'Company 2498') {
+        throw new Error(`Got ${output.length} rows, last ${JSON.stringify(output[output.length - 1])}`);
+      }
+    }],
+    ['csv: CSV input in, CSV file out', {}, async (mock) => {
+      const csv = 'name,description\r\nOpenAI,"AI research, safety"\r\nStripe,Payments\r\n';
+      const start = (await run('modules/startRankTask.imljson', {
+        inputData: csv, inputFormat: 'csv', hasHeaderRow: true, delimiter: ',', task: 'Rank', fieldName: 'rank_score', fieldType: 'float',
+      }, mock)).output[0];
+      await mock.finishTask(start.taskId);
+      const file = (await run('modules/downloadResultsCsv.imljson', { taskId: start.taskId, fileName: 'ranked.csv' }, mock)).output[0];
+      const lines = file.data.toString('utf8').split('\r\n');
+      if (file.fileName !== 'ranked.csv' || file.rowCount !== 2 || lines[0] !== 'name,description,rank_score' || lines[1] !== 'OpenAI,"AI research, safety",1') {
+        throw new Error(`Unexpected file ${file.fileName}: ${JSON.stringify(lines)}`);
+      }
+    }],
+    ['merge: key columns, join type and match details', {}, async (mock) => {
+      const leftTable = JSON.stringify([{ company: 'OpenAI' }, { company: 'Google' }, { company: 'Acme' }]);
+      const rightTable = JSON.stringify([{ name: 'Google LLC', ceo: 'Sundar Pichai' }, { name: 'openai', ceo: 'Sam Altman' }]);
+      const merge = async (parameters: Record<string, any>) => (await run('modules/runTaskAndWait.imljson', {
+        operation: 'merge', leftTable, rightTable, task: 'Match companies', leftKey: 'company', rightKey: 'name', timeout: 300, ...parameters,
+      }, mock)).output;
+
+      const inner = await merge({ joinType: 'inner', includeMatchDetails: true });
+      const summary = inner.map(row => `${row.company}=${row.ceo}@${row.match_confidence}`).join(', ');
+      if (summary !== 'OpenAI=Sam Altman@0.9, Google=Sundar Pichai@0.7' || !inner[0].match_explanation.includes('"openai"')) {
+        throw new Error(`Unexpected inner join: ${JSON.stringify(inner)}`);
+      }
+      const left = await merge({ joinType: 'left', includeMatchDetails: false });
+      const acme = left[2];
+      if (left.length !== 3 || acme.company !== 'Acme' || acme.ceo !== null || 'match_confidence' in acme) {
+        throw new Error(`Unexpected left join: ${JSON.stringify(left)}`);
+      }
+    }],
+    ['merge: preview matches a sample of the left table', {}, async (mock) => {
+      const rows = Array.from({ length: 20 }, (_, i) => ({ company: `Company ${i}` }));
+      const preview = (await run('modules/runTaskAndWait.imljson', {
+        operation: 'merge', leftTable: rows, rightTable: rows, task: 'Match companies', preview: true, timeout: 300,
+      }, mock)).output;
+      if (preview.length !== 5) {
+        throw new Error(`Preview returned ${preview.length} rows`);
+      }
+    }],
+    ['merge: unknown key column is rejected', {}, async (mock) => {
+      await expectModuleError(
+        run('modules/startMergeTask.imljson', { leftTable: JSON.stringify(TEST_DATA), rightTable: JSON.stringify(TEST_DATA), task: 'Match', leftKey: 'company' }, mock),
+        'DataError', 'Validation error: query.merge_on_left: column "company" is not in the left table'
+      );
+    }],
+    ['agent map: response fields define the result columns', {}, async (mock) => {
+      const parameters = {
+        operation: 'agentMap', inputData: JSON.stringify(TEST_DATA), task: 'Company facts', effortLevel: 'low', timeout: 300,
+        responseFields: [
+          { name: 'founding_year', type: 'int', description: 'Year the company was founded' },
+          { name: 'headquarters', type: 'str', optional: true },
+        ],
+      };
+      const rows = (await run('modules/runTaskAndWait.imljson', parameters, mock)).output;
+      const fields = (await resolveInterface(loadAppFile('modules/runTaskAndWait.imljson'), parameters))
+        .filter(field => field.name !== '__dynamicInterface')
+        .map(field => `${field.name}:${field.type}`);
+      if (fields.join(',') !== 'founding_year:integer,headquarters:text') {
+        throw new Error(`Unexpected interface: ${fields.join(', ')}`);
+      }
+      if (rows.length !== TEST_DATA.length || rows[1].founding_year !== 2 || rows[1].headquarters !== 'value 2' || 'research' in rows[1]) {
+        throw new Error(`Unexpected rows: ${JSON.stringify(rows)}`);
+      }
+    }],
+    ['dedupe: clusters, representatives and duplicate flags', {}, async (mock) => {
+      const contacts = JSON.stringify([
+        { name: 'OpenAI', city: '' },
+        { name: 'Stripe', city: 'San Francisco' },
+        { name: 'Open AI', city: 'San Francisco' },
+      ]);
+      const dedupe = (parameters: Record<string, any>) => run('modules/runTaskAndWait.imljson', {
+        operation: 'dedupe', inputData: contacts, equivalenceRelation: 'Same company', timeout: 300, ...parameters,
+      }, mock).then(result => result.output);
+
+      const deduplicated = await dedupe({ representativeRule: 'most_complete' });
+      if (JSON.stringify(deduplicated.map(r => r.name)) !== '["Open AI","Stripe"]') {
+        throw new Error(`Deduplicated: ${JSON.stringify(deduplicated)}`);
+      }
+
+      const annotated = await dedupe({ outputMode: 'annotated' });
+      const flags = annotated.map(r => `${r.name}:${r.cluster_id}:${r.is_representative}`).join(',');
+      if (flags !== 'OpenAI:cluster-1:true,Stripe:cluster-2:true,Open AI:cluster-1:false' || !annotated[2].duplicate_explanation.includes('Same company')) {
+        throw new Error(`Annotated: ${JSON.stringify(annotated)}`);
+      }
+
+      const clusters = await dedupe({ outputMode: 'clusters', representativeRule: 'most_complete' });
+      if (clusters.length !== 2 || clusters[0].size !== 2 || clusters[0].representative.name !== 'Open AI' || clusters[0].members.length !== 2) {
+        throw new Error(`Clusters: ${JSON.stringify(clusters)}`);
+      }
+
+      const fields = (await resolveInterface(loadAppFile('modules/runTaskAndWait.imljson'), { operation: 'dedupe', outputMode: 'annotated' }))
+        .map(field => field.name);
+      if (fields.join(',') !== 'cluster_id,is_representative,duplicate_explanation,__dynamicInterface') {
+        throw new Error(`Unexpected interface: ${fields.join(', ')}`);
+      }
+      await expectModuleError(
+        run('modules/startDedupeTask.imljson', { inputData: contacts, equivalenceRelation: 'Same', outputMode: 'groups' }, mock),
+        'DataError', 'Validation error: query.output_mode must be "deduplicated", "annotated" or "clusters"'
+      );
+    }],
+    ['screen: every row with its pass field, rationale and screening fields', {}, async (mock) => {
+      const screen = (parameters: Record<string, any>) => run('modules/runTaskAndWait.imljson', {
+        operation: 'screen', inputData: JSON.stringify(TEST_DATA), task: 'Keep AI', timeout: 300, ...parameters,
+      }, mock).then(result => result.output);
+
+      const all = await screen({ returnAllRows: true });
+      if (all.length !== TEST_DATA.length || all.map(r => r.passes).join() !== 'true,false,true' || !all[1].rationale.includes('rejected')) {
+        throw new Error(`All rows: ${JSON.stringify(all)}`);
+      }
+
+      const renamed = await screen({
+        returnAllRows: true, passFieldName: 'keep', rationaleFieldName: 'why',
+        responseFields: [{ name: 'confidence', type: 'float', description: 'How sure the screen is' }],
+      });
+      if (renamed.some(r => 'passes' in r || typeof r.keep !== 'boolean' || !r.why || typeof r.confidence !== 'number')) {
+        throw new Error(`Renamed fields: ${JSON.stringify(renamed)}`);
+      }
+
+      const fields = (await resolveInterface(loadAppFile('modules/runTaskAndWait.imljson'), {
+        operation: 'screen', returnAllRows: true, passFieldName: ' keep ', responseFields: [{ name: 'segment', type: 'str' }],
+      })).map(field => `${field.name}:${field.type}`);
+      if (fields.join(',') !== 'keep:boolean,rationale:text,segment:text,__dynamicInterface:any') {
+        throw new Error(`Unexpected interface: ${fields.join(', ')}`);
+      }
+      await expectModuleError(
+        run('modules/startScreenTask.imljson', { inputData: JSON.stringify(TEST_DATA), task: 'Keep AI', returnAllRows: true, passFieldName: 'result', rationaleFieldName: 'result' }, mock),
+        'DataError', 'Validation error: query.pass_field and query.rationale_field must be different'
+      );
+    }],
+    ['results: interface lists the columns once the task finishes', {}, async (mock) => {
+      const getTaskResults = loadAppFile('modules/getTaskResults.imljson');
+      const target = { transport: createFetchTransport(), baseUrl: mock.url, connection: { apiKey: mock.apiKey } };
+      const start = (await run('modules/startRankTask.imljson', {
+        inputData: JSON.stringify(TEST_DATA), task: 'Rank', fieldName: 'ai_score', fieldType: 'int',
+      }, mock)).output[0];
+      const describe = async (parameters: Record<string, any>) => (await resolveInterface(getTaskResults, parameters, target))
+        .map(field => `${field.name}:${field.type}`).join(',');
+
+      const expected = 'name:text,description:text,ai_score:integer,__dynamicInterface:any';
+      const before = await describe({ taskId: start.taskId });
+      const artifactId = (await mock.finishTask(start.taskId)).artifact_id;
+      const after = await describe({ taskId: start.taskId });
+      const byArtifact = await describe({ artifactId });
+      if (before !== '__dynamicInterface:any' || after !== expected || byArtifact !== expected) {
+        throw new Error(`Interface before: ${before}; after: ${after}; by artifact: ${byArtifact}`);
+      }
+    }],
+    ['results: declared Response Fields are listed before the task finishes', {}, async (mock) => {
+      const getTaskResults = loadAppFile('modules/getTaskResults.imljson');
+      const target = { transport: createFetchTransport(), baseUrl: mock.url, connection: { apiKey: mock.apiKey } };
+      const responseFields = [{ name: 'founded', type: 'int' }, { name: 'ceo', type: 'str' }];
+      const start = (await run('modules/startAgentMapTask.imljson', {
+        inputData: JSON.stringify(TEST_DATA), task: 'Company facts', responseFields,
+      }, mock)).output[0];
+      const describe = async () => (await resolveInterface(getTaskResults, { taskId: start.taskId, responseFields }, target))
+        .map(field => `${field.name}:${field.type}`).join(',');
+
+      const before = await describe();
+      await mock.finishTask(start.taskId);
+      const after = await describe();
+      // Sampled columns first; the declared fields keep their declared types
+      if (before !== 'founded:integer,ceo:text,__dynamicInterface:any'
+        || after !== 'name:text,description:text,founded:integer,ceo:text,__dynamicInterface:any') {
+        throw new Error(`Interface before: ${before}; after: ${after}`);
+      }
+    }],
+    ['model: selected model is passed to the engine', {}, async (mock) => {
+      await run('modules/runTaskAndWait.imljson', { operation: 'screen', inputData: JSON.stringify(TEST_DATA), task: 'Keep AI', model: 'gpt-4o-mini', timeout: 300 }, mock);
+      const screen = [...mock.tasks.values()].find(t => t.taskType === 'deep_screen');
+      if (screen?.payload.query.llm !== 'gpt-4o-mini') {
+        throw new Error(`Screen task sent llm ${JSON.stringify(screen?.payload.query.llm)}`);
+      }
+      await expectModuleError(
+        run('modules/startDedupeTask.imljson', { inputData: JSON.stringify(TEST_DATA), equivalenceRelation: 'Same', model: 'gpt-2' }, mock),
+        'DataError', 'Validation error: query.llm: unknown model "gpt-2"'
+      );
+    }],
+    ['sessions: tasks added to a named session are listed', {}, async (mock) => {
+      const first = (await run('modules/startScreenTask.imljson', {
+        inputData: JSON.stringify(TEST_DATA), task: 'Keep AI', sessionName: 'Weekly leads',
+      }, mock)).output[0];
+      const second = (await run('modules/startRankTask.imljson', {
+        inputData: JSON.stringify(TEST_DATA), task: 'Rank', fieldName: 'score', fieldType: 'float', sessionId: first.sessionId,
+      }, mock)).output[0];
+      await run('modules/startDedupeTask.imljson', { inputData: JSON.stringify(TEST_DATA), equivalenceRelation: 'Same' }, mock);
+      await mock.finishTask(first.taskId);
+
+      const sessions = (await run('modules/listSessions.imljson', { search: 'weekly' }, mock)).output;
+      if (second.sessionId !== first.sessionId || sessions.length !== 1 || sessions[0].name !== 'Weekly leads' || sessions[0].taskCount !== 4) {
+        throw new Error(`Sessions: ${JSON.stringify(sessions)}`);
+      }
+      const all = (await run('modules/listSessions.imljson', {}, mock)).output.map(s => s.name);
+      if (all.join() !== 'Make.com Session,Weekly leads') {
+        throw new Error(`All sessions, newest first: ${all.join()}`);
+      }
+
+      const tasks = (await run('modules/listTasksInSession.imljson', { sessionId: first.sessionId }, mock)).output;
+      const completed = (await run('modules/listTasksInSession.imljson', { sessionId: first.sessionId, status: 'completed', includeUploads: true }, mock)).output;
+      if (tasks.map(t => t.taskType).join() !== 'deep_screen,deep_rank' || !completed.some(t => t.taskId === first.taskId && t.artifactId)) {
+        throw new Error(`Tasks: ${JSON.stringify(tasks)}; completed: ${JSON.stringify(completed)}`);
+      }
+
+      await expectModuleError(
+        run('modules/startRankTask.imljson', { inputData: '[]', task: 'Rank', fieldName: 'score', fieldType: 'float', sessionId: 'session-x' }, mock),
+        'DataError', 'Session session-x not found'
+      );
+      await expectModuleError(run('modules/listTasksInSession.imljson', { sessionId: 'session-x' }, mock), 'DataError', 'Session session-x not found');
+    }],
+    ['chain: screen → rank → agent map on artifacts, uploading once', {}, async (mock) => {
+      const screen = (await run('modules/startScreenTask.imljson', { inputData: JSON.stringify(TEST_DATA), task: 'Keep AI' }, mock)).output[0];
+      const screened = (await mock.finishTask(screen.taskId)).artifact_id;
+      const rank = (await run('modules/startRankTask.imljson', {
+        inputArtifactId: screened, task: 'Rank', fieldName: 'score', fieldType: 'float', sessionId: screen.sessionId,
+      }, mock)).output[0];
+      const ranked = (await mock.finishTask(rank.taskId)).artifact_id;
+      const rows = (await run('modules/runTaskAndWait.imljson', {
+        operation: 'agentMap', inputArtifactId: ranked, task: 'Find the headquarters', sessionId: screen.sessionId, timeout: 300,
+      }, mock)).output;
+
+      const uploads = [...mock.tasks.values()].filter(t => t.taskType === 'create_group');
+      const screenedRows = mock.artifacts.get(screened)!.rows;
+      if (uploads.length !== 1 || rank.inputRows !== 0 || rows.length !== screenedRows.length || !rows.every(r => 'score' in r)) {
+        throw new Error(`Uploads: ${uploads.length}; rank: ${JSON.stringify(rank)}; rows: ${JSON.stringify(rows)}`);
+      }
+      if (mock.sessions.get(screen.sessionId)!.taskIds.length !== 4) {
+        throw new Error('Chained tasks were not all added to the first session');
+      }
+      await expectModuleError(
+        run('modules/startDedupeTask.imljson', { inputArtifactId: 'artifact-x', equivalenceRelation: 'Same' }, mock),
+        'DataError', 'Validation error: Artifact artifact-x not found'
+      );
+    }],
+    ['context: context data is uploaded and passed as context_artifacts', {}, async (mock) => {
+      const customers = [{ name: 'OpenAI', since: 2021 }, { name: 'Anthropic', since: 2023 }];
+      const rank = (await run('modules/startRankTask.imljson', {
+        inputData: JSON.stringify(TEST_DATA), contextData: JSON.stringify(customers), task: 'Rank by fit with our customers', fieldName: 'score', fieldType: 'float',
+      }, mock)).output[0];
+      const rows = (await run('modules/runTaskAndWait.imljson', {
+        operation: 'agentMap', inputData: JSON.stringify(TEST_DATA), contextData: JSON.stringify(customers), task: 'Compare to our customers', timeout: 300,
+      }, mock)).output;
+
+      for (const taskType of ['deep_rank', 'agent']) {
+        const task = [...mock.tasks.values()].find(t => t.taskType === taskType)!;
+        const context = task.payload.context_artifacts.flatMap((id: string) => mock.artifacts.get(id)!.rows);
+        if (JSON.stringify(context) !== JSON.stringify(customers)) {
+          throw new Error(`${taskType} context: ${JSON.stringify(task.payload.context_artifacts)}`);
+        }
+      }
+      if (rank.inputRows !== TEST_DATA.length || rank.inputBatches !== 1 || rank.contextRows !== customers.length || rank.contextBatches !== 1 || rows.length !== TEST_DATA.length) {
+        throw new Error(`Rank output: ${JSON.stringify(rank)}; agent map rows: ${rows.length}`);
+      }
+    }],
+    ['cancel: a running task stops, a finished one cannot be cancelled', {}, async (mock) => {
+      const agent = (await run('modules/startAgentMapTask.imljson', { inputData: JSON.stringify(TEST_DATA), task: 'Research' }, mock)).output[0];
+      const screen = (await run('modules/startScreenTask.imljson', { inputData: JSON.stringify(TEST_DATA), task: 'Keep AI', sessionId: agent.sessionId }, mock)).output[0];
+
+      const cancelled = (await run('modules/cancelTask.imljson', { taskId: agent.taskId }, mock)).output[0];
+      const status = (await waitForTask(agent.taskId, mock)).pop();
+      if (cancelled.status !== 'cancelled' || !status.isCancelled || status.isPending || status.isComplete) {
+        throw new Error(`Cancel: ${JSON.stringify(cancelled)}; status: ${JSON.stringify(status)}`);
+      }
+      await expectModuleError(run('modules/getTaskResults.imljson', { taskId: agent.taskId }, mock), 'RuntimeError', 'Task was cancelled');
+      const listed = (await run('modules/listTasksInSession.imljson', { sessionId: agent.sessionId, status: 'cancelled' }, mock)).output;
+      if (listed.map(t => t.taskId).join() !== agent.taskId) {
+        throw new Error(`Cancelled tasks listed: ${JSON.stringify(listed)}`);
+      }
+      await expectModuleError(
+        run('modules/cancelTask.imljson', { taskId: agent.taskId }, mock),
+        'DataError', `Cannot cancel task ${agent.taskId}: Task is already cancelled`
+      );
+
+      await mock.finishTask(screen.taskId);
+      await expectModuleError(
+        run('modules/cancelTask.imljson', { taskId: screen.taskId }, mock),
+        'DataError', `Cannot cancel task ${screen.taskId}: Task is already completed`
+      );
+      await expectModuleError(run('modules/cancelTask.imljson', { taskId: 'task-x' }, mock), 'DataError', 'Task task-x not found');
+    }],
+    ['cancel: deleting a session cancels its running tasks', {}, async (mock) => {
+      const first = (await run('modules/startRankTask.imljson', {
+        inputData: JSON.stringify(TEST_DATA), task: 'Rank', fieldName: 'score', fieldType: 'float',
+      }, mock)).output[0];
+      await run('modules/startDedupeTask.imljson', { inputData: JSON.stringify(TEST_DATA), equivalenceRelation: 'Same', sessionId: first.sessionId }, mock);
+      await mock.finishTask(first.taskId);
+
+      const deleted = (await run('modules/deleteSession.imljson', { sessionId: first.sessionId }, mock)).output[0];
+      if (!deleted.deleted || deleted.cancelledTasks !== 1 || mock.sessions.has(first.sessionId)) {
+        throw new Error(`Delete: ${JSON.stringify(deleted)}`);
+      }
+      await expectModuleError(
+        run('modules/deleteSession.imljson', { sessionId: first.sessionId }, mock),
+        'DataError', `Session ${first.sessionId} not found`
+      );
+    }],
+    ['error: 500 on session create', { errors: [{ method: 'POST', path: '/sessions/create', status: 500 }] }, async (mock) => {
+      await expectModuleError(
+        run('modules/startDedupeTask.imljson', { inputData: JSON.stringify(TEST_DATA), equivalenceRelation: 'Same' }, mock),
+        'RuntimeError', 'EveryRow server error'
+      );
+    }],
+    ['error: 402 on task create', { errors: [{ method: 'POST', path: '/tasks', status: 402 }] }, async (mock) => {
+      await expectModuleError(
+        run('modules/startAgentMapTask.imljson', { inputData: JSON.stringify(TEST_DATA), task: 'Research' }, mock),
+        'RuntimeError', 'Insufficient balance'
+      );
+    }],
+    ['error: 429 on status poll', { errors: [{ path: /^\/tasks\/.*\/status$/, status: 429, times: 1 }] }, async (mock) => {
+      await expectModuleError(run('modules/getTaskStatus.imljson', { taskId: 'task-1' }, mock), 'RateLimitError', 'Rate limit exceeded');
+    }],
+    ['error: 422 detail surfaced for bad input', {}, async (mock) => {
+      await expectModuleError(
+        run('modules/startScreenTask.imljson', { inputData: '{"name": "not an array"}', task: 'Keep AI' }, mock),
+        'DataError', 'Validation error: query.data_to_create must be an array'
+      );
+    }],
+  ];
+
+  for (const [name, options, scenario] of scenarios) {
+    try {
+      await withMockEngine(options, scenario);
+      console.log(`  ✓ ${name}`);
+      results.push({ name: `mock:${name}`, passed: true });
+    } catch (e: any) {
+      console.log(`  ✗ ${name}: ${e.message}`);
+      results.push({ name: `mock:${name}`, passed: false, error: e.message });
+    }
+  }
+}
+
+/**
+ * Stand-in for the URL Make.com assigns a webhook: records every request body.
+ */
+async function startWebhookReceiver(): Promise<{ url: string; received: any[]; close(): Promise<void> }> {
+  const received: any[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      received.push(JSON.parse(raw));
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('Accepted');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+// Test 8: Watch Task Completed against the mock engine's callbacks (mock engine only)
+async function testWatchTaskCompleted(): Promise<void> {
+  console.log('\n=== Test: Watch Task Completed ===\n');
+
+  const webhook = loadAppFile('webhooks/task-completed.imljson');
+  const trigger = loadAppFile('modules/watchTaskCompleted.imljson');
+  const fields = trigger.interface.map((field: any) => field.name).sort();
+
+  const scenarios: Array<[string, MockEngineOptions, (bundle: any, taskId: string) => void]> = [
+    ['webhook: completed task fires one bundle', {}, (bundle, taskId) => {
+      if (bundle.taskId !== taskId || bundle.status !== 'completed' || !bundle.artifactId || bundle.error !== null) {
+        throw new Error(`Unexpected bundle: ${JSON.stringify(bundle)}`);
+      }
+    }],
+    ['webhook: failed task fires with its error', { failures: { deep_screen: 'Out of credits' } }, (bundle, taskId) => {
+      if (bundle.taskId !== taskId || bundle.status !== 'failed' || bundle.artifactId !== null || bundle.error !== 'Out of credits') {
+        throw new Error(`Unexpected bundle: ${JSON.stringify(bundle)}`);
+      }
+    }],
+  ];
+
+  for (const [name, options, check] of scenarios) {
+    const receiver = await startWebhookReceiver();
+    try {
+      await withMockEngine(options, async (mock) => {
+        const target = { transport: createFetchTransport(), baseUrl: mock.url, connection: { apiKey: mock.apiKey } };
+
+        // Scenario activation: Make.com attaches the webhook with its own URL
+        const attach = await runWebhookHook(webhook, 'attach', { ...target, webhook: { url: receiver.url } });
+        if (!attach.data.externalHookId || !mock.webhooks.has(attach.data.externalHookId)) {
+          throw new Error(`Webhook was not registered: ${JSON.stringify(attach.data)}`);
+        }
+
+        const start = (await run('modules/startScreenTask.imljson', { inputData: JSON.stringify(TEST_DATA), task: 'Keep AI' }, mock)).output[0];
+        await mock.finishTask(start.taskId);
+
+        // The input upload calls back too, but the webhook only emits the screen task
+        if (receiver.received.length !== 2) {
+          throw new Error(`Expected callbacks for the upload and the screen task, got ${receiver.received.length}`);
+        }
+        const bundles = receiver.received.flatMap(body => processWebhookRequest(webhook, { body }));
+        if (bundles.length !== 1) {
+          throw new Error(`Expected one bundle, got ${JSON.stringify(bundles)}`);
+        }
+        if (Object.keys(bundles[0]).sort().join(',') !== fields.join(',')) {
+          throw new Error(`Bundle fields ${Object.keys(bundles[0]).join(', ')} don't match the interface`);
+        }
+        check(bundles[0], start.taskId);
+
+        await runWebhookHook(webhook, 'detach', { ...target, webhook: attach.data });
+        if (mock.webhooks.size !== 0) {
+          throw new Error('Webhook still registered after detach');
+        }
+      });
+      console.log(`  ✓ ${name}`);
+      results.push({ name: `mock:${name}`, passed: true });
+    } catch (e: any) {
+      console.log(`  ✗ ${name}: ${e.message}`);
+      results.push({ name: `mock:${name}`, passed: false, error: e.message });
+    } finally {
+      await receiver.close();
+    }
+  }
+}
+
+async function expectModuleError(promise: Promise<unknown>, type: string, messagePrefix: string): Promise<void> {
+  try {
+    await promise;
+  } catch (e: any) {
+    if (e instanceof ModuleError && e.type === type && e.message.startsWith(messagePrefix)) {
+      return;
+    }
+    throw new Error(`Expected ${type} "${messagePrefix}...", got ${e.name}: ${e.message}`);
+  }
+  throw new Error(`Expected ${type} but the module succeeded`);
+}
+
 // Main
 async function main() {
+  if (!EVERYROW_API_KEY) {
+    engine = await startMockEngine();
+    EVERYROW_API_KEY = engine.apiKey;
+    EVERYROW_BASE_URL = engine.url;
+  }
+
   console.log('=== Make.com Module Tests ===');
-  console.log(`API: ${EVERYROW_BASE_URL}`);
+  console.log(`API: ${EVERYROW_BASE_URL}${engine ? ' (mock engine)' : ''}`);
 
   await testModuleStructure();
+  await testTemplates();
+  await testTemplateGenerator();
   await testStartRankTaskFlow();
   await testParseJsonFlow();
+  await testConnection();
+  await testOperationFlows();
+  await testRunTaskAndWaitFlows();
+  if (engine) {
+    await testMockScenarios();
+    await testWatchTaskCompleted();
+    await engine.close();
+  }
 
   // Summary
   console.log('\n=== Test Summary ===\n');
@@ -0,0 +1,25 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Validate the App Definition
+ *
+ * Checks every .imljson file under app/ and every blueprint under
+ * templates/ (see scripts/lib/validate.ts) and prints each issue with its
+ * file and JSON path.
+ *
+ * Usage:
+ *   npx ts-node scripts/validate.ts
+ */
+
+import { formatIssue, validateApp, validateTemplates } from './lib/validate';
+
+const issues = [...validateApp(), ...validateTemplates()];
+
+if (issues.length > 0) {
+  console.error(`Found ${issues.length} issue(s):\n`);
+  for (const issue of issues) {
+    console.error(`  ✗ ${formatIssue(issue)}`);
+  }
+  process.exit(1);
+}
+
+console.log('✓ app/ and templates/ are valid');